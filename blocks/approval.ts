@@ -0,0 +1,457 @@
+import {
+  slackChannelIdSchema,
+  slackMessageTimestampSchema,
+  slackUserIdSchema,
+} from "../jsonschema/jsonschema.ts";
+
+import { AppBlock, events, kv, timers } from "@slflows/sdk/v1";
+
+import {
+  callSlackApi,
+  callSlackApiPaginated,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+  SlackApiAuth,
+} from "../slackClient.ts";
+import {
+  getEventTeamId,
+  resolveInputAuth,
+  resolveSlackAuth,
+  teamIdInputConfig,
+} from "../slackAuth.ts";
+import { registerMessageInteraction } from "../interactions.ts";
+import { withKvLock } from "../kvLock.ts";
+
+const approveActionId = "approval_approve";
+const rejectActionId = "approval_reject";
+
+interface ApprovalRequest {
+  channel: string;
+  ts: string;
+  text: string;
+  teamId?: string;
+  approverUserIds: string[];
+  approverUserGroupId?: string;
+  requiredApprovals: number;
+  approvedBy: string[];
+  rejectedBy?: string;
+  status: "pending" | "approved" | "rejected" | "timed_out";
+  originalEventId: string;
+}
+
+const approvalKey = (ts: string) => `approval:${ts}`;
+
+function buildApprovalBlocks(request: ApprovalRequest): any[] {
+  const blocks: any[] = [
+    { type: "section", text: { type: "mrkdwn", text: request.text } },
+  ];
+  const mentions = request.approvedBy.map((userId) => `<@${userId}>`);
+
+  if (request.status === "pending") {
+    if (request.requiredApprovals > 1) {
+      blocks.push({
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `${request.approvedBy.length}/${request.requiredApprovals} approvals${mentions.length > 0 ? `: ${mentions.join(", ")}` : ""}`,
+          },
+        ],
+      });
+    }
+    blocks.push({
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          action_id: approveActionId,
+          text: { type: "plain_text", text: "Approve" },
+          style: "primary",
+        },
+        {
+          type: "button",
+          action_id: rejectActionId,
+          text: { type: "plain_text", text: "Reject" },
+          style: "danger",
+        },
+      ],
+    });
+    return blocks;
+  }
+
+  const decision = {
+    approved: `:white_check_mark: Approved by ${mentions.join(", ")}`,
+    rejected: `:x: Rejected by <@${request.rejectedBy}>`,
+    timed_out: ":hourglass: Timed out without a decision",
+  }[request.status];
+  blocks.push({
+    type: "context",
+    elements: [{ type: "mrkdwn", text: decision }],
+  });
+  return blocks;
+}
+
+// Rewrites the message to show the current state. The stored record is the
+// source of truth, so a failed rewrite (e.g. the message was deleted) is only
+// logged and the decision is still emitted.
+async function updateApprovalMessage(
+  auth: SlackApiAuth,
+  request: ApprovalRequest,
+) {
+  try {
+    await callSlackApi(
+      "chat.update",
+      {
+        channel: request.channel,
+        ts: request.ts,
+        text: request.text,
+        blocks: buildApprovalBlocks(request),
+      },
+      auth,
+    );
+  } catch (error) {
+    console.error(
+      `Failed to update approval message ${request.ts} (${request.status}):`,
+      error,
+    );
+  }
+}
+
+// Approvers are the listed users plus the members of the user group.
+async function isApprover(
+  auth: SlackApiAuth,
+  request: ApprovalRequest,
+  userId: string,
+): Promise<boolean> {
+  if (request.approverUserIds.includes(userId)) {
+    return true;
+  }
+  if (!request.approverUserGroupId) {
+    return false;
+  }
+
+  const { items: members } = await callSlackApiPaginated<string>(
+    "usergroups.users.list",
+    { usergroup: request.approverUserGroupId },
+    auth,
+    "users",
+  );
+  return members.includes(userId);
+}
+
+export const approval: AppBlock = {
+  name: "Approval",
+  description:
+    "Posts an approval request with Approve/Reject buttons. Only the allowed users (or members of a user group) can decide, optionally requiring several approvals. The message is rewritten to show the decision, and the result is emitted on the 'Approved', 'Rejected' or 'Timed Out' output.",
+  category: "Messaging",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
+  inputs: {
+    default: {
+      name: "Request Approval",
+      description: "Post a new approval request.",
+      config: {
+        channelId: {
+          name: "Channel or User ID",
+          description:
+            "ID of the channel (e.g., C0123ABC), DM (D0123ABC), or user (U0123ABC) to post the request to.",
+          type: "string",
+          required: true,
+        },
+        text: {
+          name: "Request Text",
+          description:
+            "What is being approved, in Slack markdown (e.g., 'Deploy *payments-api* to production?').",
+          type: "string",
+          required: true,
+        },
+        approverUserIds: {
+          name: "Approver User IDs",
+          description: "Users allowed to approve or reject the request.",
+          type: {
+            type: "array",
+            items: { type: "string" },
+          },
+          required: false,
+        },
+        approverUserGroupId: {
+          name: "Approver User Group ID",
+          description:
+            "A user group (e.g., S0123ABC) whose members are allowed to approve or reject the request.",
+          type: "string",
+          required: false,
+        },
+        requiredApprovals: {
+          name: "Required Approvals",
+          description:
+            "How many different approvers must approve. A single rejection rejects the request.",
+          type: "number",
+          default: 1,
+          required: false,
+        },
+        timeoutSeconds: {
+          name: "Timeout (Seconds)",
+          description:
+            "If set, the request times out when no decision was made within this time.",
+          type: "number",
+          required: false,
+        },
+        threadTs: {
+          name: "Thread Timestamp",
+          description: "If set, posts the request as a reply in this thread.",
+          type: "string",
+          required: false,
+        },
+        teamId: teamIdInputConfig,
+      },
+      async onEvent(input) {
+        const {
+          channelId,
+          text,
+          approverUserIds,
+          approverUserGroupId,
+          requiredApprovals,
+          timeoutSeconds,
+          threadTs,
+          teamId,
+        } = input.event.inputConfig;
+
+        if (!approverUserIds?.length && !approverUserGroupId) {
+          throw new Error(
+            "Either approver user IDs or an approver user group must be provided.",
+          );
+        }
+
+        const request: ApprovalRequest = {
+          channel: channelId,
+          ts: "",
+          text,
+          teamId,
+          approverUserIds: approverUserIds || [],
+          approverUserGroupId,
+          requiredApprovals: Math.max(1, requiredApprovals || 1),
+          approvedBy: [],
+          status: "pending",
+          originalEventId: input.event.id,
+        };
+
+        const responseData = await callSlackApi(
+          "chat.postMessage",
+          {
+            channel: channelId,
+            text,
+            blocks: buildApprovalBlocks(request),
+            ...(threadTs && { thread_ts: threadTs }),
+          },
+          await resolveInputAuth(input),
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
+        );
+        if (!responseData) {
+          return;
+        }
+        request.channel = responseData.channel;
+        request.ts = responseData.ts;
+
+        await kv.block.set({ key: approvalKey(request.ts), value: request });
+
+        // Clicks are routed back to this block like for interactive messages.
+        await registerMessageInteraction(
+          request.ts,
+          { blockId: input.block.id, originalEventId: input.event.id },
+          timeoutSeconds,
+        );
+
+        if (timeoutSeconds) {
+          await timers.set(timeoutSeconds, {
+            inputPayload: { ts: request.ts },
+            description: "Approval timeout",
+          });
+        }
+      },
+    },
+  },
+  async onInternalMessage({ app, message }) {
+    const { type, payload } = message.body;
+    if (type !== "slack_interaction") {
+      return;
+    }
+
+    const action = payload.actions?.[0];
+    if (
+      action?.action_id !== approveActionId &&
+      action?.action_id !== rejectActionId
+    ) {
+      return;
+    }
+
+    const ts = payload.container?.message_ts || payload.message?.ts;
+    const { value } = await kv.block.get(approvalKey(ts));
+    const request = value as ApprovalRequest | undefined;
+    if (!request || request.status !== "pending") {
+      return;
+    }
+
+    const userId = payload.user.id;
+    const auth = await resolveSlackAuth(
+      app.config,
+      request.teamId || getEventTeamId(payload),
+    );
+
+    if (!(await isApprover(auth, request, userId))) {
+      await callSlackApi(
+        "chat.postEphemeral",
+        {
+          channel: request.channel,
+          user: userId,
+          text: "You are not allowed to decide on this approval request.",
+        },
+        auth,
+      );
+      return;
+    }
+
+    // Votes and the timeout can arrive at once, so the record is re-read and
+    // updated under a lock. Slack calls happen after it is released, as their
+    // retries could outlast the lock.
+    const updated = await withKvLock(kv.block, approvalKey(ts), async () => {
+      const { value: latestValue } = await kv.block.get(approvalKey(ts));
+      const latest = latestValue as ApprovalRequest | undefined;
+      if (!latest || latest.status !== "pending") {
+        return undefined;
+      }
+
+      if (action.action_id === rejectActionId) {
+        latest.status = "rejected";
+        latest.rejectedBy = userId;
+      } else if (!latest.approvedBy.includes(userId)) {
+        latest.approvedBy.push(userId);
+        if (latest.approvedBy.length >= latest.requiredApprovals) {
+          latest.status = "approved";
+        }
+      }
+
+      await kv.block.set({ key: approvalKey(ts), value: latest });
+      return latest;
+    });
+    if (!updated) {
+      return;
+    }
+
+    await updateApprovalMessage(auth, updated);
+
+    if (updated.status === "approved") {
+      await events.emit(
+        {
+          channel: updated.channel,
+          ts: updated.ts,
+          approved_by: updated.approvedBy,
+        },
+        { outputKey: "approved", parentEventId: updated.originalEventId },
+      );
+    } else if (updated.status === "rejected") {
+      await events.emit(
+        {
+          channel: updated.channel,
+          ts: updated.ts,
+          rejected_by: userId,
+        },
+        { outputKey: "rejected", parentEventId: updated.originalEventId },
+      );
+    }
+  },
+  async onTimer({ app, timer }) {
+    const { ts } = timer.payload;
+
+    const request = await withKvLock(kv.block, approvalKey(ts), async () => {
+      const { value } = await kv.block.get(approvalKey(ts));
+      const latest = value as ApprovalRequest | undefined;
+      if (!latest || latest.status !== "pending") {
+        return undefined;
+      }
+
+      latest.status = "timed_out";
+      await kv.block.set({ key: approvalKey(ts), value: latest });
+      return latest;
+    });
+    if (!request) {
+      return;
+    }
+
+    try {
+      await updateApprovalMessage(
+        await resolveSlackAuth(app.config, request.teamId),
+        request,
+      );
+    } catch (error) {
+      console.error(`Failed to resolve auth for approval ${ts}:`, error);
+    }
+
+    await events.emit(
+      {
+        channel: request.channel,
+        ts: request.ts,
+        approved_by: request.approvedBy,
+      },
+      { outputKey: "timed_out", parentEventId: request.originalEventId },
+    );
+  },
+  outputs: {
+    approved: {
+      name: "Approved",
+      description: "Emitted when the request reached the required approvals.",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          channel: slackChannelIdSchema,
+          ts: slackMessageTimestampSchema,
+          approved_by: {
+            type: "array",
+            items: slackUserIdSchema,
+            description: "The users who approved the request.",
+          },
+        },
+        required: ["channel", "ts", "approved_by"],
+      },
+    },
+    rejected: {
+      name: "Rejected",
+      description: "Emitted when an approver rejected the request.",
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          channel: slackChannelIdSchema,
+          ts: slackMessageTimestampSchema,
+          rejected_by: slackUserIdSchema,
+        },
+        required: ["channel", "ts", "rejected_by"],
+      },
+    },
+    timed_out: {
+      name: "Timed Out",
+      description:
+        "Emitted when no decision was made before the configured timeout.",
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          channel: slackChannelIdSchema,
+          ts: slackMessageTimestampSchema,
+          approved_by: {
+            type: "array",
+            items: slackUserIdSchema,
+            description:
+              "The users who approved before the timeout, if quorum required several approvals.",
+          },
+        },
+        required: ["channel", "ts", "approved_by"],
+      },
+    },
+    error: slackApiErrorOutput,
+  },
+};
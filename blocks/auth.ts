@@ -1,11 +1,21 @@
 import { AppBlock } from "@slflows/sdk/v1";
 import { callSlackApi } from "../slackClient.ts";
+import { resolveSlackAuth } from "../slackAuth.ts";
 
 export const authMetadata: AppBlock = {
   name: "Auth Metadata",
   description:
     "Gets authentication metadata for the configured bot token, including team and user information.",
   category: "Auth",
+  config: {
+    teamId: {
+      name: "Team ID",
+      description:
+        "The ID of the workspace (e.g., T0123ABC) to get metadata for. Only needed when the app is installed in several workspaces.",
+      type: "string",
+      required: false,
+    },
+  },
   signals: {
     url: {
       name: "Workspace URL",
@@ -34,16 +44,20 @@ export const authMetadata: AppBlock = {
     },
   },
   async onSync(input) {
-    const { slackBotToken } = input.app.config;
-
-    if (!slackBotToken) {
+    let auth;
+    try {
+      auth = await resolveSlackAuth(
+        input.app.config,
+        input.block.config.teamId,
+      );
+    } catch (error: any) {
       return {
         newStatus: "failed",
-        customStatusDescription: "Slack Bot Token not configured in the app.",
+        customStatusDescription: error.message,
       };
     }
 
-    const responseData = await callSlackApi("auth.test", {}, slackBotToken);
+    const responseData = await callSlackApi("auth.test", {}, auth);
 
     return {
       signalUpdates: {
@@ -1,6 +1,19 @@
 import { AppBlock, events, kv, EventInput } from "@slflows/sdk/v1";
-import { callSlackApi } from "../slackClient.ts";
-import { messagesSubscription } from "./subscriptions.ts";
+import {
+  callSlackApi,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+import {
+  isOwnBotUserEvent,
+  resolveInputAuth,
+  teamIdInputConfig,
+} from "../slackAuth.ts";
+import {
+  eventSubscriberLifecycle,
+  messagesSubscription,
+} from "./subscriptions.ts";
 import sendMessageBlocks from "./sendMessageBlocks.ts";
 import { slackBlocksSchema } from "../jsonschema/jsonschema.ts";
 
@@ -13,6 +26,7 @@ export const botThread: AppBlock = {
   category: "Conversations",
 
   config: {
+    emitErrors: emitErrorsConfig,
     channelId: {
       name: "Default Channel ID",
       description: "Default channel ID to use if not specified in inputs.",
@@ -57,6 +71,7 @@ export const botThread: AppBlock = {
           type: slackBlocksSchema,
           required: false,
         },
+        teamId: teamIdInputConfig,
       },
       onEvent: handleStart,
     },
@@ -91,13 +106,16 @@ export const botThread: AppBlock = {
           type: slackBlocksSchema,
           required: false,
         },
+        teamId: teamIdInputConfig,
       },
       onEvent: handleReply,
     },
   },
 
+  ...eventSubscriberLifecycle,
+
   onInternalMessage: async ({ app, message: { body: slackEvent } }) => {
-    if (slackEvent.user === app.signals.userId) {
+    if (await isOwnBotUserEvent(app, slackEvent)) {
       // Ignore messages from the bot itself
       return;
     }
@@ -142,6 +160,10 @@ export const botThread: AppBlock = {
         ],
       },
     },
+    error: {
+      ...slackApiErrorOutput,
+      possiblePrimaryParents: ["start", "reply"],
+    },
   },
 };
 
@@ -152,7 +174,7 @@ async function handleStart(input: EventInput) {
     message,
   } = input.event.inputConfig;
   const { channelId: blockChannelId } = input.block.config;
-  const { slackBotToken } = input.app.config;
+  const auth = await resolveInputAuth(input);
 
   const channelId = inputChannelId || blockChannelId;
   if (!channelId) {
@@ -161,12 +183,6 @@ async function handleStart(input: EventInput) {
     );
   }
 
-  if (!slackBotToken) {
-    throw new Error(
-      "Slack Bot Token not configured in the app. Cannot send message.",
-    );
-  }
-
   if (!blocks && !message) {
     throw new Error("Either blocks or message must be provided.");
   }
@@ -190,8 +206,11 @@ async function handleStart(input: EventInput) {
   const responseData = await callSlackApi(
     "chat.postMessage",
     slackApiPayload,
-    slackBotToken,
-  );
+    auth,
+  ).catch((error) => emitSlackApiError(error, input.block.config.emitErrors));
+  if (!responseData) {
+    return;
+  }
 
   // Track this thread
   await kv.block.set({
@@ -221,7 +240,7 @@ async function handleReply(input: EventInput) {
     message,
   } = input.event.inputConfig;
   const { channelId: blockChannelId } = input.block.config;
-  const { slackBotToken } = input.app.config;
+  const auth = await resolveInputAuth(input);
 
   const channelId = inputChannelId || blockChannelId;
   if (!channelId) {
@@ -230,12 +249,6 @@ async function handleReply(input: EventInput) {
     );
   }
 
-  if (!slackBotToken) {
-    throw new Error(
-      "Slack Bot Token not configured in the app. Cannot send message.",
-    );
-  }
-
   if (!blocks && !message) {
     throw new Error("Either blocks or message must be provided.");
   }
@@ -260,8 +273,11 @@ async function handleReply(input: EventInput) {
   const responseData = await callSlackApi(
     "chat.postMessage",
     slackApiPayload,
-    slackBotToken,
-  );
+    auth,
+  ).catch((error) => emitSlackApiError(error, input.block.config.emitErrors));
+  if (!responseData) {
+    return;
+  }
 
   // Re-track the thread to extend TTL
   await kv.block.set({
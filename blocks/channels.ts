@@ -5,12 +5,21 @@ import {
 
 import { AppBlock, events } from "@slflows/sdk/v1";
 
-import { callSlackApi } from "../slackClient.ts";
+import {
+  callSlackApi,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+import { resolveInputAuth, teamIdInputConfig } from "../slackAuth.ts";
 
 export const createChannel: AppBlock = {
   name: "Create Channel",
   description: "Creates a new Slack channel (public or private).",
   category: "Channels",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Create",
@@ -31,17 +40,12 @@ export const createChannel: AppBlock = {
           required: false,
           default: false,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { name, isPrivate } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot create channel.",
-          );
-        }
-
         const slackApiPayload: Record<string, any> = {
           name: name,
           is_private: isPrivate || false,
@@ -50,8 +54,13 @@ export const createChannel: AppBlock = {
         const responseData = await callSlackApi(
           "conversations.create",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           channel: responseData.channel,
@@ -108,6 +117,7 @@ export const createChannel: AppBlock = {
         required: ["channel"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -115,6 +125,9 @@ export const archiveChannel: AppBlock = {
   name: "Archive Channel",
   description: "Archives a Slack channel.",
   category: "Channels",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Archive",
@@ -126,26 +139,26 @@ export const archiveChannel: AppBlock = {
           type: "string",
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot archive channel.",
-          );
-        }
-
         const slackApiPayload = {
           channel: channelId,
         };
 
-        await callSlackApi(
+        const responseData = await callSlackApi(
           "conversations.archive",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           channel: channelId,
@@ -166,6 +179,7 @@ export const archiveChannel: AppBlock = {
         required: ["channel"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -173,6 +187,9 @@ export const unarchiveChannel: AppBlock = {
   name: "Unarchive Channel",
   description: "Unarchives a Slack channel.",
   category: "Channels",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Unarchive",
@@ -184,26 +201,26 @@ export const unarchiveChannel: AppBlock = {
           type: "string",
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot unarchive channel.",
-          );
-        }
-
         const slackApiPayload = {
           channel: channelId,
         };
 
-        await callSlackApi(
+        const responseData = await callSlackApi(
           "conversations.unarchive",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           channel: channelId,
@@ -224,6 +241,7 @@ export const unarchiveChannel: AppBlock = {
         required: ["channel"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -231,6 +249,9 @@ export const getChannelInfo: AppBlock = {
   name: "Get Channel Info",
   description: "Gets information about a Slack channel.",
   category: "Channels",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Get",
@@ -243,23 +264,23 @@ export const getChannelInfo: AppBlock = {
           type: "string",
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot get channel info.",
-          );
-        }
-
         const responseData = await callSlackApi(
           "conversations.info",
           { channel: channelId },
-          slackBotToken,
+          auth,
           "form", // Use form-urlencoded for conversations.info
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           channel: responseData.channel,
@@ -364,6 +385,7 @@ export const getChannelInfo: AppBlock = {
         required: ["channel"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -371,6 +393,9 @@ export const setChannelTopic: AppBlock = {
   name: "Set Channel Topic",
   description: "Sets the topic for a Slack channel.",
   category: "Channels",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Set",
@@ -389,17 +414,12 @@ export const setChannelTopic: AppBlock = {
           type: "string",
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId, topic } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot set channel topic.",
-          );
-        }
-
         const slackApiPayload = {
           channel: channelId,
           topic: topic,
@@ -408,8 +428,13 @@ export const setChannelTopic: AppBlock = {
         const responseData = await callSlackApi(
           "conversations.setTopic",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           channel: channelId,
@@ -435,6 +460,7 @@ export const setChannelTopic: AppBlock = {
         required: ["channel", "topic"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -442,6 +468,9 @@ export const setChannelPurpose: AppBlock = {
   name: "Set Channel Purpose",
   description: "Sets the purpose for a Slack channel.",
   category: "Channels",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Set",
@@ -460,17 +489,12 @@ export const setChannelPurpose: AppBlock = {
           type: "string",
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId, purpose } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot set channel purpose.",
-          );
-        }
-
         const slackApiPayload = {
           channel: channelId,
           purpose: purpose,
@@ -479,8 +503,13 @@ export const setChannelPurpose: AppBlock = {
         const responseData = await callSlackApi(
           "conversations.setPurpose",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           channel: channelId,
@@ -507,6 +536,7 @@ export const setChannelPurpose: AppBlock = {
         required: ["channel", "purpose"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -514,6 +544,9 @@ export const inviteUsersToChannel: AppBlock = {
   name: "Invite Users to Channel",
   description: "Invites users to a Slack channel.",
   category: "Channels",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Invite",
@@ -537,17 +570,12 @@ export const inviteUsersToChannel: AppBlock = {
           },
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId, users } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot invite users to channel.",
-          );
-        }
-
         const slackApiPayload = {
           channel: channelId,
           users: users.join(","),
@@ -556,8 +584,13 @@ export const inviteUsersToChannel: AppBlock = {
         const responseData = await callSlackApi(
           "conversations.invite",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           channel: responseData.channel,
@@ -598,6 +631,7 @@ export const inviteUsersToChannel: AppBlock = {
         required: ["channel", "users"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -605,6 +639,9 @@ export const kickUsersFromChannel: AppBlock = {
   name: "Kick Users from Channel",
   description: "Removes users from a Slack channel.",
   category: "Channels",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Kick",
@@ -623,27 +660,27 @@ export const kickUsersFromChannel: AppBlock = {
           type: "string",
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId, user } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot remove user from channel.",
-          );
-        }
-
         const slackApiPayload = {
           channel: channelId,
           user: user,
         };
 
-        await callSlackApi(
+        const responseData = await callSlackApi(
           "conversations.kick",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           channel: channelId,
@@ -667,5 +704,6 @@ export const kickUsersFromChannel: AppBlock = {
         required: ["channel", "user"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
@@ -1,7 +1,22 @@
 import { AppBlock, events, kv, EventInput } from "@slflows/sdk/v1";
-import { callSlackApi } from "../slackClient.ts";
+import {
+  callSlackApi,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+  SlackApiAuth,
+} from "../slackClient.ts";
+import {
+  getEventTeamId,
+  isOwnBotUserEvent,
+  resolveInputAuth,
+  resolveSlackAuth,
+} from "../slackAuth.ts";
 import sendMessageBlocks from "./sendMessageBlocks.ts";
-import { messagesSubscription } from "./subscriptions.ts";
+import {
+  eventSubscriberLifecycle,
+  messagesSubscription,
+} from "./subscriptions.ts";
 
 export const conversation: AppBlock = {
   name: "Conversation",
@@ -15,6 +30,7 @@ export const conversation: AppBlock = {
   category: "Conversations",
 
   config: {
+    emitErrors: emitErrorsConfig,
     ttl: {
       name: "Conversation TTL",
       description:
@@ -60,8 +76,10 @@ export const conversation: AppBlock = {
     },
   },
 
+  ...eventSubscriberLifecycle,
+
   onInternalMessage: async ({ app, block, message: { body: slackEvent } }) => {
-    if (slackEvent.user === app.signals.userId) {
+    if (await isOwnBotUserEvent(app, slackEvent)) {
       // Ignore messages from the bot itself
       return;
     }
@@ -101,7 +119,7 @@ export const conversation: AppBlock = {
     // Add "seen" reaction if reactions are enabled
     if (block.config.reactions) {
       await addReaction(
-        app.config.slackBotToken,
+        await resolveSlackAuth(app.config, getEventTeamId(slackEvent)),
         slackEvent.channel,
         slackEvent.ts,
         "eyes",
@@ -125,6 +143,7 @@ export const conversation: AppBlock = {
       type: sendMessageBlocks.outputs.default.type,
       secondary: true,
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -175,28 +194,29 @@ async function handleResponse(input: EventInput) {
   const { channel, thread_ts, ts: echoTs } = input.event.echo.body;
   const { content: text } = input.event.inputConfig;
   const blocks = [{ type: "markdown", text }];
+  // Reply in the workspace the conversation was started in.
+  const auth = await resolveInputAuth(input);
 
-  const { ts, message } = await callSlackApi(
+  const responseData = await callSlackApi(
     "chat.postMessage",
     { channel, text, thread_ts, blocks, mrkdwn: true },
-    input.app.config.slackBotToken,
-  );
+    auth,
+  ).catch((error) => emitSlackApiError(error, input.block.config.emitErrors));
+  if (!responseData) {
+    return;
+  }
+  const { ts, message } = responseData;
 
   // Add "response" reaction to the original message if reactions are enabled
   if (input.block.config.reactions) {
-    await addReaction(
-      input.app.config.slackBotToken,
-      channel,
-      echoTs,
-      "white_check_mark",
-    );
+    await addReaction(auth, channel, echoTs, "white_check_mark");
   }
 
   await events.emit({ channel, ts, message }, { outputKey: "onResponse" });
 }
 
 async function addReaction(
-  token: string,
+  auth: SlackApiAuth,
   channel: string,
   timestamp: string,
   emoji: string,
@@ -205,7 +225,7 @@ async function addReaction(
     await callSlackApi(
       "reactions.add",
       { channel, timestamp, name: emoji },
-      token,
+      auth,
     );
   } catch (error) {
     console.warn(`Failed to add ${emoji} reaction:`, error);
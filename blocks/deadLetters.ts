@@ -0,0 +1,196 @@
+import { AppBlock, events, messaging } from "@slflows/sdk/v1";
+
+import {
+  deleteDeadLetter,
+  getDeadLetter,
+  listDeadLetterIds,
+} from "../deadLetters.ts";
+
+const deadLetterSummarySchema = {
+  type: "object" as const,
+  properties: {
+    id: { type: "string", description: "The dead letter ID." },
+    source: {
+      type: "string",
+      enum: ["events", "commands", "interactivity"],
+      description: "The endpoint the payload arrived on.",
+    },
+    reason: {
+      type: "string",
+      description: "Why the payload could not be routed.",
+    },
+    recorded_at: {
+      type: "number",
+      description: "When the payload was recorded (epoch milliseconds).",
+    },
+  },
+  required: ["id", "source", "reason", "recorded_at"],
+};
+
+export const deadLetters: AppBlock = {
+  name: "Dead Letters",
+  description:
+    "Lists, inspects and replays inbound Slack payloads that could not be routed, e.g. clicks on messages whose interaction data was lost, commands without a subscription block, or events whose routing failed. Replaying sends the payload to a chosen block, as if it had been routed there.",
+  category: "Diagnostics",
+  inputs: {
+    list: {
+      name: "List",
+      description: "Emit the stored dead letters, oldest first.",
+      config: {},
+      async onEvent() {
+        const deadLetterList = [];
+        for (const id of await listDeadLetterIds()) {
+          const deadLetter = await getDeadLetter(id);
+          if (deadLetter) {
+            deadLetterList.push({
+              id: deadLetter.id,
+              source: deadLetter.source,
+              reason: deadLetter.reason,
+              recorded_at: deadLetter.recordedAt,
+            });
+          }
+        }
+
+        await events.emit(
+          { dead_letters: deadLetterList },
+          { outputKey: "list" },
+        );
+      },
+    },
+    inspect: {
+      name: "Inspect",
+      description: "Emit a dead letter including its payload.",
+      config: {
+        id: {
+          name: "Dead Letter ID",
+          description: "The ID of the dead letter, as emitted by 'List'.",
+          type: "string",
+          required: true,
+        },
+      },
+      async onEvent(input) {
+        const { id } = input.event.inputConfig;
+        const deadLetter = await getDeadLetter(id);
+        if (!deadLetter) {
+          throw new Error(`Dead letter ${id} not found.`);
+        }
+
+        await events.emit(
+          {
+            id: deadLetter.id,
+            source: deadLetter.source,
+            reason: deadLetter.reason,
+            recorded_at: deadLetter.recordedAt,
+            body: deadLetter.body,
+          },
+          { outputKey: "entry" },
+        );
+      },
+    },
+    replay: {
+      name: "Replay",
+      description: "Re-dispatch a dead letter to a block of this app.",
+      config: {
+        id: {
+          name: "Dead Letter ID",
+          description: "The ID of the dead letter to replay.",
+          type: "string",
+          required: true,
+        },
+        blockId: {
+          name: "Target Block ID",
+          description:
+            "The ID of the block to send the payload to, e.g. the 'Send Message With Interactions' block that posted the clicked message.",
+          type: "string",
+          required: true,
+        },
+        keep: {
+          name: "Keep After Replay",
+          description:
+            "If true, the dead letter stays in the store after being replayed.",
+          type: "boolean",
+          default: false,
+          required: false,
+        },
+      },
+      async onEvent(input) {
+        const { id, blockId, keep } = input.event.inputConfig;
+        const deadLetter = await getDeadLetter(id);
+        if (!deadLetter) {
+          throw new Error(`Dead letter ${id} not found.`);
+        }
+
+        await messaging.sendToBlocks({
+          blockIds: [blockId],
+          body: deadLetter.body,
+        });
+
+        if (!keep) {
+          await deleteDeadLetter(id);
+        }
+
+        await events.emit(
+          { id, block_id: blockId, removed: !keep },
+          { outputKey: "replayed" },
+        );
+      },
+    },
+  },
+  outputs: {
+    list: {
+      name: "Dead Letters",
+      description: "Emitted with the stored dead letters.",
+      possiblePrimaryParents: ["list"],
+      default: true,
+      type: {
+        type: "object",
+        properties: {
+          dead_letters: {
+            type: "array",
+            items: deadLetterSummarySchema,
+          },
+        },
+        required: ["dead_letters"],
+      },
+    },
+    entry: {
+      name: "Dead Letter",
+      description: "Emitted with an inspected dead letter.",
+      possiblePrimaryParents: ["inspect"],
+      secondary: true,
+      type: {
+        type: "object",
+        properties: {
+          ...deadLetterSummarySchema.properties,
+          body: {
+            type: "object",
+            description:
+              "The payload, in the form it would have been routed to a block.",
+          },
+        },
+        required: [...deadLetterSummarySchema.required, "body"],
+      },
+    },
+    replayed: {
+      name: "Replayed",
+      description: "Emitted when a dead letter has been replayed.",
+      possiblePrimaryParents: ["replay"],
+      secondary: true,
+      type: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "The replayed dead letter ID." },
+          block_id: {
+            type: "string",
+            description: "The block the payload was sent to.",
+          },
+          removed: {
+            type: "boolean",
+            description: "True if the dead letter was removed from the store.",
+          },
+        },
+        required: ["id", "block_id", "removed"],
+      },
+    },
+  },
+};
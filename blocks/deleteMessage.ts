@@ -5,13 +5,22 @@ import {
 
 import { AppBlock, events } from "@slflows/sdk/v1";
 
-import { callSlackApi } from "../slackClient.ts";
+import {
+  callSlackApi,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+import { resolveInputAuth, teamIdInputConfig } from "../slackAuth.ts";
 
 export default {
   name: "Delete Message",
   description:
     "Deletes a message from a Slack channel using its channel ID and timestamp.",
   category: "Messaging",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Delete",
@@ -30,17 +39,12 @@ export default {
           type: "string",
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId, ts } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot delete message.",
-          );
-        }
-
         const slackApiPayload = {
           channel: channelId,
           ts: ts,
@@ -49,8 +53,13 @@ export default {
         const responseData = await callSlackApi(
           "chat.delete",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           channel: responseData.channel,
@@ -73,5 +82,6 @@ export default {
         required: ["channel", "ts"],
       },
     },
+    error: slackApiErrorOutput,
   },
 } satisfies AppBlock;
@@ -1,5 +1,11 @@
 import { AppBlock, events } from "@slflows/sdk/v1";
-import { callSlackApi } from "../slackClient.ts";
+import {
+  callSlackApiPaginated,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+import { resolveInputAuth, teamIdInputConfig } from "../slackAuth.ts";
 import {
   slackChannelIdSchema,
   slackMessageTimestampSchema,
@@ -10,6 +16,9 @@ export const getThread: AppBlock = {
   description:
     "Retrieves an entire Slack thread as a single object given a message timestamp.",
   category: "Messaging",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
 
   inputs: {
     default: {
@@ -34,11 +43,41 @@ export const getThread: AppBlock = {
         limit: {
           name: "Limit",
           description:
-            "Maximum number of messages to retrieve from the thread. Defaults to 1000.",
+            "Maximum number of messages to retrieve per page. Defaults to 1000, which is also Slack's maximum.",
           type: "number",
           default: 1000,
           required: false,
         },
+        fetchAllPages: {
+          name: "Fetch All Pages",
+          description:
+            "If true, follows pagination cursors and returns every message in the thread (up to Max Pages / Max Messages) as a single output. If false, only the first page is returned.",
+          type: "boolean",
+          default: false,
+          required: false,
+        },
+        maxPages: {
+          name: "Max Pages",
+          description:
+            "When fetching all pages, stop after this many pages. Defaults to 20.",
+          type: "number",
+          default: 20,
+          required: false,
+        },
+        maxMessages: {
+          name: "Max Messages",
+          description:
+            "When fetching all pages, stop once this many messages have been collected. Leave empty for no limit.",
+          type: "number",
+          required: false,
+        },
+        cursor: {
+          name: "Cursor",
+          description:
+            "Pagination cursor (response_metadata.next_cursor) from a previous call, to continue where it left off.",
+          type: "string",
+          required: false,
+        },
         oldest: {
           name: "Oldest",
           description:
@@ -53,17 +92,21 @@ export const getThread: AppBlock = {
           type: "string",
           required: false,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
-        const { channelId, threadTs, limit, oldest, latest } =
-          input.event.inputConfig;
-
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot retrieve thread.",
-          );
-        }
+        const auth = await resolveInputAuth(input);
+        const {
+          channelId,
+          threadTs,
+          limit,
+          oldest,
+          latest,
+          fetchAllPages,
+          maxPages,
+          maxMessages,
+          cursor,
+        } = input.event.inputConfig;
 
         const slackApiPayload: Record<string, any> = {
           channel: channelId,
@@ -90,19 +133,46 @@ export const getThread: AppBlock = {
           slackApiPayload.latest = latest;
         }
 
-        const responseData = await callSlackApi(
+        if (cursor && typeof cursor === "string" && cursor.trim() !== "") {
+          slackApiPayload.cursor = cursor;
+        }
+
+        const result = await callSlackApiPaginated(
           "conversations.replies",
           slackApiPayload,
-          slackBotToken,
+          auth,
+          "messages",
+          {
+            ...(fetchAllPages
+              ? { maxPages: maxPages || 20, maxItems: maxMessages || undefined }
+              : { maxPages: 1 }),
+            // Slack repeats the parent message at the top of every page, so
+            // it is only kept on the first page of the thread. The parent is
+            // recognized by its own ts matching its thread_ts, as the
+            // Thread Timestamp input may be the ts of any reply.
+            filterPage: (messages, page) =>
+              page === 0 && !slackApiPayload.cursor
+                ? messages
+                : messages.filter(
+                    (message) => message.ts !== message.thread_ts,
+                  ),
+          },
           "form",
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!result) {
+          return;
+        }
 
         const thread = {
           channel: channelId,
           thread_ts: threadTs,
-          messages: responseData.messages || [],
-          has_more: responseData.has_more || false,
-          response_metadata: responseData.response_metadata || {},
+          messages: result.items,
+          has_more: result.has_more,
+          response_metadata: result.next_cursor
+            ? { next_cursor: result.next_cursor }
+            : {},
         };
 
         await events.emit(thread);
@@ -221,5 +291,6 @@ export const getThread: AppBlock = {
         required: ["channel", "thread_ts", "messages", "has_more"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
@@ -0,0 +1,166 @@
+import { AppBlock, blocks, events, JsonSchema, kv } from "@slflows/sdk/v1";
+
+// Slack renders at most 100 options for an external select.
+const maxSlackOptions = 100;
+
+interface ProvidedOption {
+  text: string;
+  value: string;
+  description?: string;
+}
+
+const optionsKey = (blockId: string) => `options:${blockId}`;
+
+// Answers a block_suggestion payload synchronously from the options provider
+// block registered for its action_id. Slack expects the response within 3 seconds.
+export const handleBlockSuggestion = async (payload: any) => {
+  const providerBlocks = await blocks.list({ typeIds: ["optionsProvider"] });
+  const provider = providerBlocks.blocks.find(
+    (block) => block.config.actionId === payload.action_id,
+  );
+
+  if (!provider) {
+    console.warn(
+      `No optionsProvider block found for action_id: ${payload.action_id}`,
+    );
+    return [];
+  }
+
+  const { value: storedOptions } = await kv.app.get(optionsKey(provider.id));
+  const allOptions: ProvidedOption[] = [
+    ...(provider.config.options || []),
+    ...((storedOptions as ProvidedOption[]) || []),
+  ];
+
+  const query = (payload.value || "").trim().toLowerCase();
+  const matchingOptions = query
+    ? allOptions.filter((option) =>
+        provider.config.matchMode === "prefix"
+          ? option.text.toLowerCase().startsWith(query)
+          : option.text.toLowerCase().includes(query) ||
+            option.value.toLowerCase().includes(query),
+      )
+    : allOptions;
+
+  const limit = Math.min(
+    provider.config.maxOptions || maxSlackOptions,
+    maxSlackOptions,
+  );
+
+  return matchingOptions.slice(0, limit).map((option) => ({
+    text: { type: "plain_text", text: option.text },
+    value: option.value,
+    ...(option.description && {
+      description: { type: "plain_text", text: option.description },
+    }),
+  }));
+};
+
+const optionsListSchema: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      text: {
+        type: "string",
+        description: "The label shown to the user (max 75 characters).",
+      },
+      value: {
+        type: "string",
+        description:
+          "The value sent back in interaction payloads (max 150 characters).",
+      },
+      description: {
+        type: "string",
+        description: "Optional. Secondary text shown under the label.",
+      },
+    },
+    required: ["text", "value"],
+  },
+};
+
+export const optionsProvider: AppBlock = {
+  name: "Options Provider",
+  description:
+    "Serves the options of an external select menu (external_select / multi_external_select) for a given action_id. Options come from a static list and/or a list stored by the 'Set Options' input, and are filtered by what the user types.",
+  category: "Messaging",
+  config: {
+    actionId: {
+      name: "Action ID",
+      description:
+        "The action_id of the external select element(s) this block provides options for.",
+      type: "string",
+      required: true,
+    },
+    options: {
+      name: "Static Options (Optional)",
+      description:
+        'Options that are always offered, e.g. [{"text": "Production", "value": "prod"}].',
+      type: optionsListSchema,
+      required: false,
+    },
+    matchMode: {
+      name: "Match Mode",
+      description:
+        "How the user's typed text is matched: 'contains' matches anywhere in the label or value, 'prefix' only matches the start of the label.",
+      type: {
+        type: "string",
+        enum: ["contains", "prefix"],
+      },
+      default: "contains",
+      required: false,
+    },
+    maxOptions: {
+      name: "Max Options",
+      description:
+        "Maximum number of options returned to Slack. Slack shows at most 100.",
+      type: "number",
+      default: 100,
+      required: false,
+    },
+  },
+  inputs: {
+    setOptions: {
+      name: "Set Options",
+      description:
+        "Replaces the stored options list, in addition to the static options. Use this to keep the list in sync from other blocks (e.g., service or stack names).",
+      config: {
+        options: {
+          name: "Options",
+          description:
+            'The options to offer, e.g. [{"text": "Payments API", "value": "payments-api"}].',
+          type: optionsListSchema,
+          required: true,
+        },
+      },
+      async onEvent(input) {
+        const { options } = input.event.inputConfig;
+
+        if (!Array.isArray(options)) {
+          throw new Error("Options must be an array of {text, value} objects.");
+        }
+
+        await kv.app.set({ key: optionsKey(input.block.id), value: options });
+
+        await events.emit({ count: options.length });
+      },
+    },
+  },
+  outputs: {
+    default: {
+      name: "Options Updated",
+      description: "Emitted when the stored options list has been replaced.",
+      possiblePrimaryParents: ["setOptions"],
+      type: {
+        type: "object",
+        properties: {
+          count: {
+            type: "number",
+            description: "The number of stored options.",
+          },
+        },
+        required: ["count"],
+      },
+    },
+  },
+};
@@ -5,12 +5,21 @@ import {
 
 import { AppBlock, events } from "@slflows/sdk/v1";
 
-import { callSlackApi } from "../slackClient.ts";
+import {
+  callSlackApi,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+import { resolveInputAuth, teamIdInputConfig } from "../slackAuth.ts";
 
 export const getReactions: AppBlock = {
   name: "Get Reactions",
   description: "Gets all reactions for a specific message in a Slack channel.",
   category: "Reactions",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Get",
@@ -37,41 +46,32 @@ export const getReactions: AppBlock = {
           type: "boolean",
           required: false,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId, ts, full } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot get reactions.",
-          );
-        }
-
-        // reactions.get requires application/x-www-form-urlencoded
-        const params = new URLSearchParams({
+        const slackApiPayload: Record<string, any> = {
           channel: channelId,
           timestamp: ts,
-        });
+        };
 
         if (full !== undefined) {
-          params.append("full", full.toString());
+          slackApiPayload.full = full.toString();
         }
 
-        const response = await fetch(`https://slack.com/api/reactions.get`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${slackBotToken}`,
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-          body: params.toString(),
-        });
-
-        const responseData = await response.json();
-        if (!responseData.ok) {
-          throw new Error(
-            `Slack API error (reactions.get): ${responseData.error || "Unknown error"}`,
-          );
+        // reactions.get requires application/x-www-form-urlencoded
+        const responseData = await callSlackApi(
+          "reactions.get",
+          slackApiPayload,
+          auth,
+          "form",
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
+        );
+        if (!responseData) {
+          return;
         }
 
         await events.emit({
@@ -134,6 +134,7 @@ export const getReactions: AppBlock = {
         required: ["channel", "message", "type"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -142,6 +143,9 @@ export const addReaction: AppBlock = {
   description:
     "Adds a reaction (emoji) to a specific message in a Slack channel.",
   category: "Reactions",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Add",
@@ -168,24 +172,28 @@ export const addReaction: AppBlock = {
           type: "string",
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId, ts, name } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot add reaction.",
-          );
-        }
-
         const slackApiPayload = {
           channel: channelId,
           timestamp: ts,
           name: name,
         };
 
-        await callSlackApi("reactions.add", slackApiPayload, slackBotToken);
+        const responseData = await callSlackApi(
+          "reactions.add",
+          slackApiPayload,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
+        );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           channel: channelId,
@@ -213,6 +221,7 @@ export const addReaction: AppBlock = {
         required: ["channel", "ts", "reaction", "ok"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -221,6 +230,9 @@ export const removeReaction: AppBlock = {
   description:
     "Removes a reaction (emoji) from a specific message in a Slack channel.",
   category: "Reactions",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Remove",
@@ -247,24 +259,28 @@ export const removeReaction: AppBlock = {
           type: "string",
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId, ts, name } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot remove reaction.",
-          );
-        }
-
         const slackApiPayload = {
           channel: channelId,
           timestamp: ts,
           name: name,
         };
 
-        await callSlackApi("reactions.remove", slackApiPayload, slackBotToken);
+        const responseData = await callSlackApi(
+          "reactions.remove",
+          slackApiPayload,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
+        );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           channel: channelId,
@@ -292,5 +308,6 @@ export const removeReaction: AppBlock = {
         required: ["channel", "ts", "reaction"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
@@ -5,13 +5,22 @@ import {
 
 import { AppBlock, events } from "@slflows/sdk/v1";
 
-import { callSlackApi } from "../slackClient.ts";
+import {
+  callSlackApi,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+import { resolveInputAuth, teamIdInputConfig } from "../slackAuth.ts";
 
 export default {
   name: "Send Ephemeral Message Blocks",
   description:
     "Sends a message with Block Kit blocks to a Slack channel that is only visible to a specific user.",
   category: "Messaging",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Send",
@@ -45,17 +54,12 @@ export default {
           type: "string",
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId, userId, blocks, text } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot send message.",
-          );
-        }
-
         // Validate blocks is an array
         if (!Array.isArray(blocks)) {
           throw new Error(
@@ -73,8 +77,13 @@ export default {
         const responseData = await callSlackApi(
           "chat.postEphemeral",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           message_ts: responseData.message_ts, // Ephemeral messages use message_ts instead of ts
@@ -103,5 +112,6 @@ export default {
         required: ["message_ts", "channel", "user"],
       },
     },
+    error: slackApiErrorOutput,
   },
 } satisfies AppBlock;
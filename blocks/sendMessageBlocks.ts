@@ -14,13 +14,22 @@ import {
 
 import { AppBlock, events } from "@slflows/sdk/v1";
 
-import { callSlackApi } from "../slackClient.ts";
+import {
+  callSlackApi,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+import { resolveInputAuth, teamIdInputConfig } from "../slackAuth.ts";
 
 export default {
   name: "Send Message Blocks",
   description:
     "Sends a message to a Slack channel or user with a JSON list of Block Kit blocks. Can optionally be a thread reply.",
   category: "Messaging",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Send",
@@ -60,17 +69,12 @@ export default {
           type: "string",
           required: false,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId, blocks, text, threadTs } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot send message.",
-          );
-        }
-
         const slackApiPayload: Record<string, any> = {
           channel: channelId,
           blocks: blocks,
@@ -91,8 +95,13 @@ export default {
         const responseData = await callSlackApi(
           "chat.postMessage",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           ts: responseData.ts, // Timestamp of the sent message
@@ -159,5 +168,6 @@ export default {
         required: ["ts", "channel", "message"],
       },
     },
+    error: slackApiErrorOutput,
   },
 } satisfies AppBlock;
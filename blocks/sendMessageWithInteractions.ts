@@ -12,15 +12,286 @@ import {
   slackUserIdSchema,
 } from "../jsonschema/jsonschema.ts";
 
-import { AppBlock, events, kv } from "@slflows/sdk/v1";
+import { AppBlock, events, timers } from "@slflows/sdk/v1";
 
-import { callSlackApi } from "../slackClient.ts";
+import {
+  callSlackApi,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+import {
+  getEventTeamId,
+  resolveInputAuth,
+  resolveSlackAuth,
+  teamIdInputConfig,
+} from "../slackAuth.ts";
+import {
+  claimMessageInteraction,
+  disableMessageActions,
+  interactionRefusalMessages,
+  registerMessageInteraction,
+} from "../interactions.ts";
+
+// Output keys for mapped actions are derived from the output names.
+function getActionOutputKey(outputName: string): string {
+  return `action_${outputName.replace(/[^A-Za-z0-9_]/g, "_")}`;
+}
+
+// Picks the output for a click: a mapping on the action_id wins over one on
+// the value, anything unmapped goes to the catch-all "interaction" output.
+// Values are free text, so only the mapping's own keys are looked up (not
+// e.g. "constructor").
+function getInteractionOutputKey(
+  payload: any,
+  actionOutputs: Record<string, string> | undefined,
+): string {
+  const action = payload.actions?.[0];
+  const mappedKey = [action?.action_id, action?.value].find(
+    (key) =>
+      typeof key === "string" &&
+      actionOutputs &&
+      Object.hasOwn(actionOutputs, key),
+  );
+  return mappedKey && actionOutputs
+    ? getActionOutputKey(actionOutputs[mappedKey])
+    : "interaction";
+}
+
+// Shape of the interaction payload, shared by the catch-all and mapped outputs.
+const interactionOutputType = {
+  type: "object" as const,
+  description:
+    "Slack interaction payload containing details about the user action.",
+  properties: {
+    type: {
+      type: "string",
+      description:
+        "The type of interaction (e.g., 'block_actions', 'interactive_message', 'view_submission').",
+    },
+    user: {
+      type: "object",
+      description: "Information about the user who performed the interaction.",
+      properties: {
+        id: slackUserIdSchema,
+        username: { type: "string", description: "The user's username." },
+        name: { type: "string", description: "The user's display name." },
+        team_id: slackTeamIdSchema,
+      },
+      required: ["id", "username", "name", "team_id"],
+    },
+    container: {
+      type: "object",
+      description: "Information about the message container.",
+      properties: {
+        type: {
+          type: "string",
+          description: "Container type (usually 'message').",
+        },
+        message_ts: slackMessageTimestampSchema,
+      },
+      required: ["type", "message_ts"],
+    },
+    trigger_id: {
+      type: "string",
+      description:
+        "A temporary token to open modals or other interactive elements.",
+    },
+    team: {
+      type: "object",
+      description: "Information about the workspace.",
+      properties: {
+        id: slackTeamIdSchema,
+        domain: { type: "string", description: "Workspace domain." },
+      },
+      required: ["id", "domain"],
+    },
+    channel: {
+      type: "object",
+      description:
+        "Information about the channel where the interaction occurred.",
+      properties: {
+        id: slackChannelIdSchema,
+        name: { type: "string", description: "Channel name." },
+      },
+      required: ["id", "name"],
+    },
+    message: {
+      type: "object",
+      description: "The message that contains the interactive element.",
+    },
+    actions: {
+      type: "array",
+      description: "Array of actions that were triggered.",
+      items: {
+        type: "object",
+        description:
+          "Details about the specific action (button click, menu selection, etc.).",
+        properties: {
+          action_id: {
+            type: "string",
+            description: "The action_id of the element that was triggered.",
+          },
+          block_id: {
+            type: "string",
+            description:
+              "The block_id of the block containing the triggered element.",
+          },
+          type: {
+            type: "string",
+            description:
+              "The type of action (e.g., 'button', 'static_select', 'users_select', 'conversations_select', 'channels_select', 'external_select', 'overflow', 'datepicker', 'timepicker', 'radio_buttons', 'checkboxes').",
+          },
+          action_ts: {
+            type: "string",
+            description: "Timestamp when the action occurred.",
+          },
+          text: {
+            type: "object",
+            description: "Text object for elements like buttons.",
+            properties: {
+              type: {
+                type: "string",
+                enum: ["plain_text", "mrkdwn"],
+              },
+              text: {
+                type: "string",
+              },
+              emoji: {
+                type: "boolean",
+              },
+            },
+          },
+          value: {
+            type: "string",
+            description:
+              "The value of the action (for buttons and overflow menus).",
+          },
+          selected_option: {
+            type: "object",
+            description: "The selected option (for single select menus).",
+            properties: {
+              text: {
+                type: "object",
+                properties: {
+                  type: { type: "string" },
+                  text: { type: "string" },
+                },
+              },
+              value: { type: "string" },
+            },
+          },
+          selected_options: {
+            type: "array",
+            description: "The selected options (for multi-select menus).",
+            items: {
+              type: "object",
+              properties: {
+                text: {
+                  type: "object",
+                  properties: {
+                    type: { type: "string" },
+                    text: { type: "string" },
+                  },
+                },
+                value: { type: "string" },
+              },
+            },
+          },
+          selected_date: {
+            type: "string",
+            description:
+              "The selected date (for datepicker, format: YYYY-MM-DD).",
+          },
+          selected_time: {
+            type: "string",
+            description: "The selected time (for timepicker, format: HH:MM).",
+          },
+          selected_user: {
+            type: "string",
+            description: "The selected user ID (for users_select).",
+          },
+          selected_users: {
+            type: "array",
+            description: "The selected user IDs (for multi_users_select).",
+            items: { type: "string" },
+          },
+          selected_channel: {
+            type: "string",
+            description: "The selected channel ID (for channels_select).",
+          },
+          selected_channels: {
+            type: "array",
+            description:
+              "The selected channel IDs (for multi_channels_select).",
+            items: { type: "string" },
+          },
+          selected_conversation: {
+            type: "string",
+            description:
+              "The selected conversation ID (for conversations_select).",
+          },
+          selected_conversations: {
+            type: "array",
+            description:
+              "The selected conversation IDs (for multi_conversations_select).",
+            items: { type: "string" },
+          },
+        },
+        required: ["action_id", "block_id", "type", "action_ts"],
+      },
+    },
+    response_url: {
+      type: "string",
+      description: "URL that can be used to respond to the interaction.",
+    },
+  },
+  required: ["type", "user", "trigger_id", "team", "channel"],
+};
 
 export default {
   name: "Send Message With Interactions",
   description:
-    "Sends a message with Block Kit blocks to a Slack channel and listens for user interactions (button clicks, menu selections, etc.). Has two outputs: one when the message is sent, and one for each interaction.",
+    "Sends a message with Block Kit blocks to a Slack channel and listens for user interactions (button clicks, menu selections, etc.). Has two outputs: one when the message is sent, and one for each interaction. Interactions can also be routed to separate outputs per action_id or value.",
   category: "Messaging",
+  config: {
+    emitErrors: emitErrorsConfig,
+    actionOutputs: {
+      name: "Action Outputs",
+      description:
+        'Optional mapping from an element\'s action_id or value to an output name, e.g. {"approve_button": "Approved", "reject_button": "Rejected"}. Each output name becomes its own output, so each button can be wired separately. Unmapped interactions go to \'Interaction Received\'. Outputs are created when the block is synced, while the message blocks are only known when a message is sent, so they cannot be derived from the blocks and have to be listed here.',
+      type: {
+        type: "object",
+        additionalProperties: { type: "string" },
+      },
+      required: false,
+    },
+  },
+  async onSync(input) {
+    const actionOutputs: Record<string, string> =
+      input.block.config.actionOutputs || {};
+
+    const customOutputs: Record<string, any> = {};
+    for (const outputName of new Set(Object.values(actionOutputs))) {
+      const outputKey = getActionOutputKey(outputName);
+      // Names like "Approved" and "Approved!" would share one output.
+      if (customOutputs[outputKey]) {
+        return {
+          newStatus: "failed" as const,
+          customStatusDescription: `Action output names '${customOutputs[outputKey].name}' and '${outputName}' are too similar, rename one of them.`,
+        };
+      }
+
+      customOutputs[outputKey] = {
+        name: outputName,
+        description: `Emitted when a user triggers an element mapped to '${outputName}'.`,
+        possiblePrimaryParents: ["default"],
+        type: interactionOutputType,
+      };
+    }
+
+    return { newStatus: "ready" as const, customOutputs };
+  },
   inputs: {
     default: {
       name: "Send",
@@ -60,16 +331,33 @@ export default {
           type: "string",
           required: false,
         },
+        expiresInSeconds: {
+          name: "Expires In (Seconds)",
+          description:
+            "If set, interactions are only accepted for this long. Later clicks get an ephemeral 'This request has expired.' reply.",
+          type: "number",
+          required: false,
+        },
+        singleResponse: {
+          name: "Single Response",
+          description:
+            "If true, only the first interaction is accepted, and the message's buttons and menus are replaced with a note saying who answered. With an expiry, they are also replaced once it passes.",
+          type: "boolean",
+          default: false,
+          required: false,
+        },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
-        const { channelId, blocks, text, threadTs } = input.event.inputConfig;
-
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot send message.",
-          );
-        }
+        const auth = await resolveInputAuth(input);
+        const {
+          channelId,
+          blocks,
+          text,
+          threadTs,
+          expiresInSeconds,
+          singleResponse,
+        } = input.event.inputConfig;
 
         const slackApiPayload: Record<string, any> = {
           channel: channelId,
@@ -91,18 +379,37 @@ export default {
         const responseData = await callSlackApi(
           "chat.postMessage",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         // Store interaction metadata for this message
         const messageTs = responseData.ts;
-        await kv.app.set({
-          key: `interaction:${messageTs}`,
-          value: {
+        await registerMessageInteraction(
+          messageTs,
+          {
             blockId: input.block.id,
             originalEventId: input.event.id,
+            singleResponse,
           },
-        });
+          expiresInSeconds,
+        );
+
+        if (singleResponse && expiresInSeconds) {
+          await timers.set(expiresInSeconds, {
+            inputPayload: {
+              channel: responseData.channel,
+              ts: messageTs,
+              blocks,
+              teamId: getEventTeamId(responseData.message),
+            },
+            description: "Interaction expiry",
+          });
+        }
 
         await events.emit(
           {
@@ -120,7 +427,7 @@ export default {
     const messageBody = input.message.body;
 
     if (messageBody.type === "slack_interaction") {
-      const { payload, originalEventId } = messageBody;
+      const { payload, originalEventId, singleResponse } = messageBody;
 
       await events.emit(
         {
@@ -145,11 +452,40 @@ export default {
           token: payload.token,
         },
         {
-          outputKey: "interaction",
+          outputKey: getInteractionOutputKey(
+            payload,
+            input.block.config.actionOutputs,
+          ),
           parentEventId: originalEventId,
         },
       );
+
+      if (singleResponse) {
+        await disableMessageActions(
+          await resolveSlackAuth(input.app.config, getEventTeamId(payload)),
+          payload.channel.id,
+          payload.container.message_ts,
+          payload.message.blocks,
+          `Answered by <@${payload.user.id}>`,
+        );
+      }
+    }
+  },
+  async onTimer({ app, timer }) {
+    const { channel, ts, blocks, teamId } = timer.payload;
+
+    // Skip messages a user already answered.
+    if (!(await claimMessageInteraction(ts))) {
+      return;
     }
+
+    await disableMessageActions(
+      await resolveSlackAuth(app.config, teamId),
+      channel,
+      ts,
+      blocks,
+      interactionRefusalMessages.expired,
+    );
   },
   outputs: {
     sent: {
@@ -212,201 +548,10 @@ export default {
     interaction: {
       name: "Interaction Received",
       description:
-        "Emitted when a user interacts with the message (clicks button, selects from menu, etc.).",
+        "Emitted when a user interacts with the message (clicks button, selects from menu, etc.) and the element is not mapped in 'Action Outputs'.",
       possiblePrimaryParents: ["default"],
-      type: {
-        type: "object",
-        description:
-          "Slack interaction payload containing details about the user action.",
-        properties: {
-          type: {
-            type: "string",
-            description:
-              "The type of interaction (e.g., 'block_actions', 'interactive_message', 'view_submission').",
-          },
-          user: {
-            type: "object",
-            description:
-              "Information about the user who performed the interaction.",
-            properties: {
-              id: slackUserIdSchema,
-              username: { type: "string", description: "The user's username." },
-              name: { type: "string", description: "The user's display name." },
-              team_id: slackTeamIdSchema,
-            },
-            required: ["id", "username", "name", "team_id"],
-          },
-          container: {
-            type: "object",
-            description: "Information about the message container.",
-            properties: {
-              type: {
-                type: "string",
-                description: "Container type (usually 'message').",
-              },
-              message_ts: slackMessageTimestampSchema,
-            },
-            required: ["type", "message_ts"],
-          },
-          trigger_id: {
-            type: "string",
-            description:
-              "A temporary token to open modals or other interactive elements.",
-          },
-          team: {
-            type: "object",
-            description: "Information about the workspace.",
-            properties: {
-              id: slackTeamIdSchema,
-              domain: { type: "string", description: "Workspace domain." },
-            },
-            required: ["id", "domain"],
-          },
-          channel: {
-            type: "object",
-            description:
-              "Information about the channel where the interaction occurred.",
-            properties: {
-              id: slackChannelIdSchema,
-              name: { type: "string", description: "Channel name." },
-            },
-            required: ["id", "name"],
-          },
-          message: {
-            type: "object",
-            description: "The message that contains the interactive element.",
-          },
-          actions: {
-            type: "array",
-            description: "Array of actions that were triggered.",
-            items: {
-              type: "object",
-              description:
-                "Details about the specific action (button click, menu selection, etc.).",
-              properties: {
-                action_id: {
-                  type: "string",
-                  description:
-                    "The action_id of the element that was triggered.",
-                },
-                block_id: {
-                  type: "string",
-                  description:
-                    "The block_id of the block containing the triggered element.",
-                },
-                type: {
-                  type: "string",
-                  description:
-                    "The type of action (e.g., 'button', 'static_select', 'users_select', 'conversations_select', 'channels_select', 'external_select', 'overflow', 'datepicker', 'timepicker', 'radio_buttons', 'checkboxes').",
-                },
-                action_ts: {
-                  type: "string",
-                  description: "Timestamp when the action occurred.",
-                },
-                text: {
-                  type: "object",
-                  description: "Text object for elements like buttons.",
-                  properties: {
-                    type: {
-                      type: "string",
-                      enum: ["plain_text", "mrkdwn"],
-                    },
-                    text: {
-                      type: "string",
-                    },
-                    emoji: {
-                      type: "boolean",
-                    },
-                  },
-                },
-                value: {
-                  type: "string",
-                  description:
-                    "The value of the action (for buttons and overflow menus).",
-                },
-                selected_option: {
-                  type: "object",
-                  description: "The selected option (for single select menus).",
-                  properties: {
-                    text: {
-                      type: "object",
-                      properties: {
-                        type: { type: "string" },
-                        text: { type: "string" },
-                      },
-                    },
-                    value: { type: "string" },
-                  },
-                },
-                selected_options: {
-                  type: "array",
-                  description: "The selected options (for multi-select menus).",
-                  items: {
-                    type: "object",
-                    properties: {
-                      text: {
-                        type: "object",
-                        properties: {
-                          type: { type: "string" },
-                          text: { type: "string" },
-                        },
-                      },
-                      value: { type: "string" },
-                    },
-                  },
-                },
-                selected_date: {
-                  type: "string",
-                  description:
-                    "The selected date (for datepicker, format: YYYY-MM-DD).",
-                },
-                selected_time: {
-                  type: "string",
-                  description:
-                    "The selected time (for timepicker, format: HH:MM).",
-                },
-                selected_user: {
-                  type: "string",
-                  description: "The selected user ID (for users_select).",
-                },
-                selected_users: {
-                  type: "array",
-                  description:
-                    "The selected user IDs (for multi_users_select).",
-                  items: { type: "string" },
-                },
-                selected_channel: {
-                  type: "string",
-                  description: "The selected channel ID (for channels_select).",
-                },
-                selected_channels: {
-                  type: "array",
-                  description:
-                    "The selected channel IDs (for multi_channels_select).",
-                  items: { type: "string" },
-                },
-                selected_conversation: {
-                  type: "string",
-                  description:
-                    "The selected conversation ID (for conversations_select).",
-                },
-                selected_conversations: {
-                  type: "array",
-                  description:
-                    "The selected conversation IDs (for multi_conversations_select).",
-                  items: { type: "string" },
-                },
-              },
-              required: ["action_id", "block_id", "type", "action_ts"],
-            },
-          },
-          response_url: {
-            type: "string",
-            description: "URL that can be used to respond to the interaction.",
-          },
-        },
-        required: ["type", "user", "trigger_id", "team", "channel"],
-      },
+      type: interactionOutputType,
     },
+    error: slackApiErrorOutput,
   },
 } satisfies AppBlock;
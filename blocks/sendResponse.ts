@@ -0,0 +1,173 @@
+import { AppBlock, events } from "@slflows/sdk/v1";
+
+import {
+  emitErrorsConfig,
+  emitSlackApiError,
+  postToResponseUrl,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+
+export default {
+  name: "Send Response",
+  description:
+    "Responds to a slash command or interaction through its response_url. Can post a new message (in channel or ephemeral), replace the original message, or delete it, without knowing the message timestamp.",
+  category: "Messaging",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
+  inputs: {
+    default: {
+      name: "Respond",
+      description: "Trigger sending the response.",
+      config: {
+        responseUrl: {
+          name: "Response URL",
+          description:
+            "The response_url from a slash command or interaction payload. Valid for 30 minutes and up to 5 responses.",
+          type: "string",
+          required: true,
+        },
+        text: {
+          name: "Text",
+          description:
+            "The text of the response. Used as fallback text when blocks are provided.",
+          type: "string",
+          required: false,
+        },
+        blocks: {
+          name: "Message Blocks",
+          description:
+            "Optional Slack Block Kit blocks to include in the response, as a JSON array.",
+          type: {
+            type: "array",
+            items: {
+              type: "object",
+              description: "A Slack Block Kit block object.",
+            },
+          },
+          required: false,
+        },
+        responseType: {
+          name: "Response Type",
+          description:
+            "'ephemeral' shows the response only to the user who triggered it, 'in_channel' posts it for everyone. Defaults to 'ephemeral'. Ignored when replacing the original message.",
+          type: {
+            type: "string",
+            enum: ["ephemeral", "in_channel"],
+          },
+          required: false,
+        },
+        replaceOriginal: {
+          name: "Replace Original",
+          description:
+            "If true, replaces the message the interaction came from instead of posting a new one.",
+          type: "boolean",
+          default: false,
+          required: false,
+        },
+        deleteOriginal: {
+          name: "Delete Original",
+          description:
+            "If true, deletes the message the interaction came from. Text and blocks are ignored.",
+          type: "boolean",
+          default: false,
+          required: false,
+        },
+        threadTs: {
+          name: "Thread Timestamp",
+          description:
+            "If set, posts the response as a reply in this thread (only for new messages).",
+          type: "string",
+          required: false,
+        },
+      },
+      async onEvent(input) {
+        const { slackApiBaseUrl } = input.app.config;
+        const {
+          responseUrl,
+          text,
+          blocks,
+          responseType,
+          replaceOriginal,
+          deleteOriginal,
+          threadTs,
+        } = input.event.inputConfig;
+
+        let body: Record<string, any>;
+        if (deleteOriginal) {
+          body = { delete_original: true };
+        } else {
+          if (!text && !blocks) {
+            throw new Error("Either text or blocks must be provided.");
+          }
+
+          body = {
+            text: text || "Message with blocks",
+            replace_original: !!replaceOriginal,
+          };
+          if (blocks) {
+            body.blocks = blocks;
+          }
+          if (!replaceOriginal) {
+            body.response_type = responseType || "ephemeral";
+          }
+          if (threadTs && !replaceOriginal) {
+            body.thread_ts = threadTs;
+          }
+        }
+
+        const responseData = await postToResponseUrl(
+          responseUrl,
+          body,
+          slackApiBaseUrl,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
+        );
+        if (!responseData) {
+          return;
+        }
+        const { usesRemaining } = responseData;
+
+        await events.emit({
+          response_type: body.response_type,
+          replaced_original: !!body.replace_original,
+          deleted_original: !!body.delete_original,
+          uses_remaining: usesRemaining,
+        });
+      },
+    },
+  },
+  outputs: {
+    default: {
+      name: "Response Sent",
+      description: "Emitted when the response has been accepted by Slack.",
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          response_type: {
+            type: "string",
+            enum: ["ephemeral", "in_channel"],
+            description:
+              "The response type of the new message. Absent when the original message was replaced or deleted.",
+          },
+          replaced_original: {
+            type: "boolean",
+            description: "True if the original message was replaced.",
+          },
+          deleted_original: {
+            type: "boolean",
+            description: "True if the original message was deleted.",
+          },
+          uses_remaining: {
+            type: "number",
+            description:
+              "How many more times this response_url can be used (Slack allows 5).",
+          },
+        },
+        required: ["replaced_original", "deleted_original", "uses_remaining"],
+      },
+    },
+    error: slackApiErrorOutput,
+  },
+} satisfies AppBlock;
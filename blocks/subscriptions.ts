@@ -1,4 +1,4 @@
-import { AppBlock, blocks, events, messaging } from "@slflows/sdk/v1"; // TODO: Move the http subscription event handler here.
+import { AppBlock, blocks, events, kv, messaging } from "@slflows/sdk/v1"; // TODO: Move the http subscription event handler here.
 
 import {
   slackAppIdSchema,
@@ -15,76 +15,207 @@ import {
   slackThreadTsSchema,
   slackUserIdSchema,
 } from "../jsonschema/jsonschema.ts";
+import * as nodecrypto from "node:crypto";
+import { recordDeadLetter } from "../deadLetters.ts";
+import { isOwnBotUserEvent } from "../slackAuth.ts";
 
-export const handleEventSubscriptions = async (event: any) => {
-  if (event.type === "app_mention") {
-    const mentionSubscriptionBlocks = await blocks.list({
-      typeIds: ["appMentionSubscription", "conversation"],
-    });
+// Block types that receive each Events API event type.
+const eventSubscriberTypeIds: Record<string, string[]> = {
+  app_mention: ["appMentionSubscription", "conversation"],
+  reaction_added: ["reactionsSubscription"],
+  reaction_removed: ["reactionsSubscription"],
+  message: ["messagesSubscription", "conversation", "botThread"],
+};
 
-    // Filter blocks by their configured channel (if present)
-    const relevantBlocks = mentionSubscriptionBlocks.blocks.filter((block) => {
-      const configuredChannelId = block.config.channelId;
-      return !configuredChannelId || configuredChannelId === event.channel;
-    });
+const routingIndexKey = "routing:eventSubscriptions";
+const routingGenerationKey = "routing:eventSubscriptions:generation";
 
-    if (relevantBlocks.length > 0) {
-      console.log(
-        `Routing app_mention to ${relevantBlocks.length} subscription block(s).`,
-      );
-      await messaging.sendToBlocks({
-        blockIds: relevantBlocks.map((b) => b.id),
-        body: event, // Send the full Slack event object
-      });
-    } else {
-      console.log(
-        "No relevant appMentionSubscription blocks found for app_mention event.",
-      );
-    }
-  } else if (
-    event.type === "reaction_added" ||
-    event.type === "reaction_removed"
-  ) {
-    const reactionSubscriptionBlocks = await blocks.list({
-      typeIds: ["reactionsSubscription"],
-    });
-    if (reactionSubscriptionBlocks.blocks.length > 0) {
-      console.log(
-        `Routing ${event.type} to ${reactionSubscriptionBlocks.blocks.length} subscription block(s).`,
-      );
-      await messaging.sendToBlocks({
-        blockIds: reactionSubscriptionBlocks.blocks.map((b) => b.id),
-        body: event, // Send the full Slack event object
-      });
-    } else {
-      console.log(
-        `No reactionsSubscription blocks found for ${event.type} event.`,
-      );
+// Safety net so a missed invalidation can't leave routing stale for long.
+const routingIndexTtlSeconds = 15 * 60;
+
+// Event type -> "<team ID>:<channel ID>" route -> block IDs, where "*" stands
+// for any team or channel.
+type SubscriptionRoutingIndex = Record<string, Record<string, string[]>>;
+
+const routeKey = (teamId?: string, channelId?: string) =>
+  `${teamId || "*"}:${channelId || "*"}`;
+
+// Blocks configured for another workspace never receive the payload.
+const matchesTeam = (block: { config: Record<string, any> }, teamId?: string) =>
+  !block.config.teamId || block.config.teamId === teamId;
+
+async function buildSubscriptionRoutingIndex(): Promise<SubscriptionRoutingIndex> {
+  const index: SubscriptionRoutingIndex = {};
+
+  for (const [eventType, typeIds] of Object.entries(eventSubscriberTypeIds)) {
+    const subscriberBlocks = await blocks.list({ typeIds });
+
+    index[eventType] = {};
+    for (const block of subscriberBlocks.blocks) {
+      const key = routeKey(block.config.teamId, block.config.channelId);
+      (index[eventType][key] ??= []).push(block.id);
     }
-  } else if (event.type === "message") {
-    const messageSubscriptionBlocks = await blocks.list({
-      typeIds: ["messagesSubscription", "conversation", "botThread"],
+  }
+
+  return index;
+}
+
+// The index is stored with the generation it was built in. Invalidation
+// starts a new generation, so an index whose rebuild began before the
+// invalidation, and was saved after it, is never used.
+interface CachedRoutingIndex {
+  generation: string | null;
+  index: SubscriptionRoutingIndex;
+}
+
+async function getSubscriptionRoutingIndex(): Promise<SubscriptionRoutingIndex> {
+  const { value: generation = null } = await kv.app.get(routingGenerationKey);
+  const { value } = await kv.app.get(routingIndexKey);
+  const cached = value as CachedRoutingIndex | undefined;
+  if (cached && cached.generation === generation) {
+    return cached.index;
+  }
+
+  console.log(
+    "Subscription routing index missing or stale, rebuilding with a full scan.",
+  );
+  const index = await buildSubscriptionRoutingIndex();
+  await kv.app.set({
+    key: routingIndexKey,
+    value: { generation, index } satisfies CachedRoutingIndex,
+    ttl: routingIndexTtlSeconds,
+  });
+  return index;
+}
+
+// Starts a new index generation, so the next event rebuilds the index from
+// blocks.list. Called whenever a subscription block or the app is synced or
+// drained.
+export const invalidateSubscriptionRoutingIndex = async () => {
+  await kv.app.set({
+    key: routingGenerationKey,
+    value: nodecrypto.randomUUID(),
+  });
+  await kv.app.delete([routingIndexKey]);
+};
+
+// Lifecycle hooks shared by all blocks that receive Events API events.
+export const eventSubscriberLifecycle = {
+  async onSync() {
+    await invalidateSubscriptionRoutingIndex();
+    return { newStatus: "ready" as const };
+  },
+  async onDrain() {
+    await invalidateSubscriptionRoutingIndex();
+    return { newStatus: "drained" as const };
+  },
+};
+
+export const handleEventSubscriptions = async (
+  event: any,
+  teamId: string | undefined = event.team,
+) => {
+  const routes = (await getSubscriptionRoutingIndex())[event.type];
+  if (!routes) {
+    return;
+  }
+
+  // Blocks without a configured team or channel receive events from every
+  // team or channel.
+  const routeKeys = new Set([
+    routeKey(),
+    routeKey(undefined, event.channel),
+    routeKey(teamId),
+    routeKey(teamId, event.channel),
+  ]);
+  const blockIds = [...routeKeys].flatMap((key) => routes[key] || []);
+
+  if (blockIds.length > 0) {
+    console.log(
+      `Routing ${event.type} to ${blockIds.length} subscription block(s).`,
+    );
+    await messaging.sendToBlocks({
+      blockIds,
+      body: event, // Send the full Slack event object
     });
+  } else {
+    // Unlike commands and shortcuts, unmatched events are expected (e.g.
+    // messages in channels nobody subscribes to), so they aren't dead-lettered.
+    console.log(
+      `No relevant subscription blocks found for ${event.type} event.`,
+    );
+  }
+};
 
-    // Filter blocks by their configured channel (if present)
-    const relevantBlocks = messageSubscriptionBlocks.blocks.filter((block) => {
-      const configuredChannelId = block.config.channelId;
-      return !configuredChannelId || configuredChannelId === event.channel;
+export const handleSlashCommandSubscriptions = async (payload: any) => {
+  const commandSubscriptionBlocks = await blocks.list({
+    typeIds: ["slashCommandSubscription"],
+  });
+
+  // Filter blocks by their configured command (if present)
+  const relevantBlocks = commandSubscriptionBlocks.blocks.filter((block) => {
+    const configuredCommand = block.config.command;
+    return (
+      matchesTeam(block, payload.team_id) &&
+      (!configuredCommand ||
+        normalizeSlashCommand(configuredCommand) === payload.command)
+    );
+  });
+
+  if (relevantBlocks.length > 0) {
+    console.log(
+      `Routing ${payload.command} to ${relevantBlocks.length} subscription block(s).`,
+    );
+    await messaging.sendToBlocks({
+      blockIds: relevantBlocks.map((b) => b.id),
+      body: { type: "slash_command", payload },
     });
+  } else {
+    await recordDeadLetter(
+      "commands",
+      `No slashCommandSubscription block found for ${payload.command}`,
+      { type: "slash_command", payload },
+    );
+  }
+};
 
-    if (relevantBlocks.length > 0) {
-      await messaging.sendToBlocks({
-        blockIds: relevantBlocks.map((b) => b.id),
-        body: event, // Send the full Slack event object
-      });
-    } else {
-      console.log(
-        "No relevant messagesSubscription blocks found for message event.",
-      );
-    }
+export const handleShortcutSubscriptions = async (payload: any) => {
+  const shortcutType = payload.type === "message_action" ? "message" : "global";
+  const shortcutSubscriptionBlocks = await blocks.list({
+    typeIds: ["shortcutSubscription"],
+  });
+
+  // Filter blocks by their configured callback ID and shortcut type
+  const relevantBlocks = shortcutSubscriptionBlocks.blocks.filter(
+    (block) =>
+      matchesTeam(block, payload.team?.id) &&
+      block.config.callbackId === payload.callback_id &&
+      (block.config.shortcutType || "global") === shortcutType,
+  );
+
+  if (relevantBlocks.length > 0) {
+    console.log(
+      `Routing ${shortcutType} shortcut ${payload.callback_id} to ${relevantBlocks.length} subscription block(s).`,
+    );
+    await messaging.sendToBlocks({
+      blockIds: relevantBlocks.map((b) => b.id),
+      body: { type: "shortcut", payload },
+    });
+  } else {
+    await recordDeadLetter(
+      "interactivity",
+      `No shortcutSubscription block found for ${shortcutType} shortcut ${payload.callback_id}`,
+      { type: "shortcut", payload },
+    );
   }
 };
 
+// Slack sends commands with a leading slash, but users may configure them without one.
+export const normalizeSlashCommand = (command: string) => {
+  const trimmed = command.trim();
+  return trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+};
+
 export const appMentionSubscription: AppBlock = {
   name: "App Mention Subscription",
   description:
@@ -98,7 +229,15 @@ export const appMentionSubscription: AppBlock = {
       type: "string",
       required: false,
     },
+    teamId: {
+      name: "Team ID (Optional)",
+      description:
+        "If specified, only app mentions from this workspace (e.g., T0123ABC) will be received. Only relevant when the app is installed in several workspaces.",
+      type: "string",
+      required: false,
+    },
   },
+  ...eventSubscriberLifecycle,
   async onInternalMessage({ block, message }) {
     // EntityOnInternalMessageInput
     // The body of the message is the Slack event payload, routed by the app's main HTTP handler.
@@ -185,6 +324,16 @@ export const reactionsSubscription: AppBlock = {
   description:
     "Subscribes to reaction add and remove events on Slack messages.",
   category: "Reactions",
+  config: {
+    teamId: {
+      name: "Team ID (Optional)",
+      description:
+        "If specified, only reactions from this workspace (e.g., T0123ABC) will be received. Only relevant when the app is installed in several workspaces.",
+      type: "string",
+      required: false,
+    },
+  },
+  ...eventSubscriberLifecycle,
   async onInternalMessage(input) {
     const slackEvent = input.message.body;
     if (
@@ -271,6 +420,13 @@ export const messagesSubscription: AppBlock = {
       type: "string",
       required: false,
     },
+    teamId: {
+      name: "Team ID (Optional)",
+      description:
+        "If specified, only messages from this workspace (e.g., T0123ABC) will be received. Only relevant when the app is installed in several workspaces.",
+      type: "string",
+      required: false,
+    },
     includeOwnMessages: {
       name: "Include Own Messages",
       description:
@@ -280,6 +436,7 @@ export const messagesSubscription: AppBlock = {
       required: false,
     },
   },
+  ...eventSubscriberLifecycle,
   async onInternalMessage({ app, block, message }) {
     const slackEvent = message.body;
     if (slackEvent && slackEvent.type === "message") {
@@ -295,8 +452,8 @@ export const messagesSubscription: AppBlock = {
 
       // Skip this event if it's from the app itself and we are not including own messages
       if (
-        app.signals.userId === slackEvent.user &&
-        !block.config.includeOwnMessages
+        !block.config.includeOwnMessages &&
+        (await isOwnBotUserEvent(app, slackEvent))
       ) {
         return;
       }
@@ -361,3 +518,302 @@ export const messagesSubscription: AppBlock = {
     },
   },
 };
+
+export const slashCommandSubscription: AppBlock = {
+  name: "Slash Command Subscription",
+  description:
+    "Subscribes to slash commands (e.g., /deploy) invoked by users, optionally filtered by command name.",
+  category: "Messaging",
+  config: {
+    command: {
+      name: "Command (Optional)",
+      description:
+        "If specified, only this slash command (e.g., '/deploy') will be received. Leave empty to receive all commands sent to the app. The command is also declared in the generated Slack app manifest.",
+      type: "string",
+      required: false,
+    },
+    description: {
+      name: "Command Description (Optional)",
+      description:
+        "Short description of the command, shown in Slack's autocomplete. Only used in the generated Slack app manifest.",
+      type: "string",
+      required: false,
+    },
+    teamId: {
+      name: "Team ID (Optional)",
+      description:
+        "If specified, only commands from this workspace (e.g., T0123ABC) will be received. Only relevant when the app is installed in several workspaces.",
+      type: "string",
+      required: false,
+    },
+  },
+  async onInternalMessage({ block, message }) {
+    const { type, payload } = message.body;
+    if (type !== "slash_command" || !payload) {
+      console.warn(
+        "slashCommandSubscription received unexpected internal message:",
+        message.body,
+      );
+      return;
+    }
+
+    const configuredCommand = block.config.command;
+    if (
+      configuredCommand &&
+      payload.command !== normalizeSlashCommand(configuredCommand)
+    ) {
+      console.error(
+        "Slash command unexpectedly received for a different command: ",
+        payload.command,
+      );
+      return;
+    }
+
+    await events.emit({
+      command: payload.command,
+      text: payload.text,
+      user_id: payload.user_id,
+      user_name: payload.user_name,
+      channel_id: payload.channel_id,
+      channel_name: payload.channel_name,
+      team_id: payload.team_id,
+      team_domain: payload.team_domain,
+      enterprise_id: payload.enterprise_id,
+      api_app_id: payload.api_app_id,
+      trigger_id: payload.trigger_id,
+      response_url: payload.response_url,
+    });
+  },
+  outputs: {
+    default: {
+      name: "On Slash Command",
+      description:
+        "Emitted when a user invokes the slash command. Contains the Slack slash command payload.",
+      type: {
+        type: "object",
+        description:
+          "Payload of a Slack slash command. See https://api.slack.com/interactivity/slash-commands for more details.",
+        properties: {
+          command: {
+            type: "string",
+            description: "The command that was invoked (e.g., '/deploy').",
+          },
+          text: {
+            type: "string",
+            description:
+              "The text the user typed after the command. Empty if no arguments were given.",
+          },
+          user_id: slackUserIdSchema,
+          user_name: {
+            type: "string",
+            description: "The username of the user who invoked the command.",
+          },
+          channel_id: slackChannelIdSchema,
+          channel_name: {
+            type: "string",
+            description: "The name of the channel the command was invoked in.",
+          },
+          team_id: slackTeamIdSchema,
+          team_domain: {
+            type: "string",
+            description: "The domain of the workspace.",
+          },
+          enterprise_id: {
+            type: "string",
+            description:
+              "Optional. The Enterprise Grid organization ID, if applicable.",
+          },
+          api_app_id: slackAppIdSchema,
+          trigger_id: {
+            type: "string",
+            description:
+              "A short-lived token that can be used to open a modal in response to the command.",
+          },
+          response_url: {
+            type: "string",
+            description:
+              "URL that can be used to respond to the command (valid for 30 minutes, up to 5 times).",
+          },
+        },
+        required: [
+          "command",
+          "text",
+          "user_id",
+          "channel_id",
+          "team_id",
+          "trigger_id",
+          "response_url",
+        ],
+      },
+    },
+  },
+};
+
+export const shortcutSubscription: AppBlock = {
+  name: "Shortcut Subscription",
+  description:
+    "Subscribes to a global shortcut (from the shortcuts menu) or a message shortcut (from a message's context menu), identified by its callback ID.",
+  category: "Messaging",
+  config: {
+    callbackId: {
+      name: "Callback ID",
+      description:
+        "The callback_id of the shortcut (e.g., 'create_incident'). Only invocations of this shortcut will be received.",
+      type: "string",
+      required: true,
+    },
+    shortcutType: {
+      name: "Shortcut Type",
+      description:
+        "'global' for shortcuts in the shortcuts menu, 'message' for shortcuts in a message's context menu.",
+      type: {
+        type: "string",
+        enum: ["global", "message"],
+      },
+      default: "global",
+      required: false,
+    },
+    name: {
+      name: "Shortcut Name (Optional)",
+      description:
+        "Name shown to users in Slack. Only used in the generated Slack app manifest. Defaults to the callback ID.",
+      type: "string",
+      required: false,
+    },
+    description: {
+      name: "Shortcut Description (Optional)",
+      description:
+        "Short description shown to users in Slack. Only used in the generated Slack app manifest.",
+      type: "string",
+      required: false,
+    },
+    teamId: {
+      name: "Team ID (Optional)",
+      description:
+        "If specified, only shortcut invocations from this workspace (e.g., T0123ABC) will be received. Only relevant when the app is installed in several workspaces.",
+      type: "string",
+      required: false,
+    },
+  },
+  async onInternalMessage({ block, message }) {
+    const { type, payload } = message.body;
+    if (type !== "shortcut" || !payload) {
+      console.warn(
+        "shortcutSubscription received unexpected internal message:",
+        message.body,
+      );
+      return;
+    }
+
+    if (payload.callback_id !== block.config.callbackId) {
+      console.error(
+        "Shortcut unexpectedly received for a different callback ID: ",
+        payload.callback_id,
+      );
+      return;
+    }
+
+    await events.emit({
+      type: payload.type,
+      callback_id: payload.callback_id,
+      trigger_id: payload.trigger_id,
+      action_ts: payload.action_ts,
+      user: payload.user,
+      team: payload.team,
+      enterprise: payload.enterprise,
+      is_enterprise_install: payload.is_enterprise_install,
+      api_app_id: payload.api_app_id,
+      channel: payload.channel,
+      message: payload.message,
+      message_ts: payload.message_ts,
+      response_url: payload.response_url,
+    });
+  },
+  outputs: {
+    default: {
+      name: "On Shortcut",
+      description:
+        "Emitted when a user invokes the shortcut. Contains the Slack shortcut payload.",
+      type: {
+        type: "object",
+        description:
+          "Payload of a Slack 'shortcut' or 'message_action' interaction. See https://api.slack.com/interactivity/shortcuts for more details.",
+        properties: {
+          type: {
+            type: "string",
+            enum: ["shortcut", "message_action"],
+            description:
+              "'shortcut' for global shortcuts, 'message_action' for message shortcuts.",
+          },
+          callback_id: {
+            type: "string",
+            description: "The callback_id of the invoked shortcut.",
+          },
+          trigger_id: {
+            type: "string",
+            description:
+              "A short-lived token that can be used to open a modal in response to the shortcut.",
+          },
+          action_ts: {
+            type: "string",
+            description: "Timestamp when the shortcut was invoked.",
+          },
+          user: {
+            type: "object",
+            description: "Information about the user who invoked the shortcut.",
+            properties: {
+              id: slackUserIdSchema,
+              username: { type: "string", description: "The user's username." },
+              team_id: slackTeamIdSchema,
+            },
+            required: ["id"],
+          },
+          team: {
+            type: "object",
+            description: "Information about the workspace.",
+            properties: {
+              id: slackTeamIdSchema,
+              domain: { type: "string", description: "Workspace domain." },
+            },
+            required: ["id"],
+          },
+          api_app_id: slackAppIdSchema,
+          channel: {
+            type: "object",
+            description:
+              "Message shortcuts only. The channel containing the source message.",
+            properties: {
+              id: slackChannelIdSchema,
+              name: { type: "string", description: "Channel name." },
+            },
+            required: ["id"],
+          },
+          message: {
+            type: "object",
+            description:
+              "Message shortcuts only. The message the shortcut was invoked on.",
+            properties: {
+              type: { type: "string" },
+              user: slackUserIdSchema,
+              ts: slackMessageTimestampSchema,
+              text: slackMessageTextSchema,
+              thread_ts: slackThreadTsSchema,
+              blocks: slackBlocksSchema,
+            },
+          },
+          message_ts: {
+            ...slackMessageTimestampSchema,
+            description:
+              "Message shortcuts only. The timestamp of the source message.",
+          },
+          response_url: {
+            type: "string",
+            description:
+              "Message shortcuts only. URL that can be used to respond in the source channel.",
+          },
+        },
+        required: ["type", "callback_id", "trigger_id", "user", "team"],
+      },
+    },
+  },
+};
@@ -6,12 +6,21 @@ import {
 
 import { AppBlock, events } from "@slflows/sdk/v1";
 
-import { callSlackApi } from "../slackClient.ts";
+import {
+  callSlackApi,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+import { resolveInputAuth, teamIdInputConfig } from "../slackAuth.ts";
 
 export default {
   name: "Update Message Blocks",
   description: "Updates an existing Slack message with new Block Kit blocks.",
   category: "Messaging",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Update",
@@ -50,17 +59,12 @@ export default {
           type: "string",
           required: false,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { channelId, ts, blocks, text } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot update message.",
-          );
-        }
-
         const slackApiPayload: Record<string, any> = {
           channel: channelId,
           ts: ts,
@@ -78,8 +82,13 @@ export default {
         const responseData = await callSlackApi(
           "chat.update",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           ts: responseData.ts,
@@ -109,5 +118,6 @@ export default {
         required: ["ts", "channel"],
       },
     },
+    error: slackApiErrorOutput,
   },
 } satisfies AppBlock;
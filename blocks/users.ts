@@ -2,12 +2,22 @@ import { slackUserIdSchema } from "../jsonschema/jsonschema.ts";
 
 import { AppBlock, events } from "@slflows/sdk/v1";
 
-import { callSlackApi } from "../slackClient.ts";
+import {
+  callSlackApi,
+  callSlackApiPaginated,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+import { resolveInputAuth, teamIdInputConfig } from "../slackAuth.ts";
 
 export const updateUserGroupUsers: AppBlock = {
   name: "Update User Group Users",
   description: "Updates the list of users in a user group.",
   category: "User Groups",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Update Users",
@@ -29,17 +39,12 @@ export const updateUserGroupUsers: AppBlock = {
           },
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { usergroup, users, includeCount } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot update user group users.",
-          );
-        }
-
         if (!Array.isArray(users)) {
           throw new Error("Users must be an array of user IDs.");
         }
@@ -56,8 +61,13 @@ export const updateUserGroupUsers: AppBlock = {
         const responseData = await callSlackApi(
           "usergroups.users.update",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         await events.emit({
           usergroup: responseData.usergroup,
@@ -124,6 +134,7 @@ export const updateUserGroupUsers: AppBlock = {
         required: ["usergroup"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -131,6 +142,9 @@ export const listUserGroupUsers: AppBlock = {
   name: "List User Group Users",
   description: "Lists all users in a specific user group.",
   category: "User Groups",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "List Users",
@@ -148,17 +162,12 @@ export const listUserGroupUsers: AppBlock = {
           type: "boolean",
           required: false,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { usergroup, includeDisabled } = input.event.inputConfig;
 
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot list user group users.",
-          );
-        }
-
         const slackApiPayload: Record<string, any> = {
           usergroup: usergroup,
         };
@@ -167,14 +176,24 @@ export const listUserGroupUsers: AppBlock = {
           slackApiPayload.include_disabled = includeDisabled;
         }
 
-        const responseData = await callSlackApi(
+        // Slack currently returns the whole membership in one response, but
+        // going through the paginated helper keeps us complete if it ever
+        // starts returning a next_cursor.
+        const responseData = await callSlackApiPaginated<string>(
           "usergroups.users.list",
           slackApiPayload,
-          slackBotToken,
+          auth,
+          "users",
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
+        const { items: users } = responseData;
 
         await events.emit({
-          users: responseData.users,
+          users,
         });
       },
     },
@@ -197,6 +216,7 @@ export const listUserGroupUsers: AppBlock = {
         required: ["users"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
 
@@ -204,6 +224,9 @@ export const getUserInfo: AppBlock = {
   name: "Get User Info",
   description: "Gets detailed information about a Slack user by their ID.",
   category: "Users",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
   inputs: {
     default: {
       name: "Get",
@@ -216,17 +239,24 @@ export const getUserInfo: AppBlock = {
           type: "string",
           required: true,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
+        const auth = await resolveInputAuth(input);
         const { userId } = input.event.inputConfig;
 
-        const { user } = await callSlackApi(
+        const responseData = await callSlackApi(
           "users.info",
           { user: userId },
-          slackBotToken,
+          auth,
           "form", // Use form-urlencoded for users.info
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
+        const { user } = responseData;
 
         await events.emit({ user });
       },
@@ -379,5 +409,6 @@ export const getUserInfo: AppBlock = {
         required: ["user"],
       },
     },
+    error: slackApiErrorOutput,
   },
 };
@@ -3,15 +3,230 @@ import {
   slackTeamIdSchema,
 } from "../jsonschema/jsonschema.ts";
 
-import { AppBlock, events, kv } from "@slflows/sdk/v1";
+import { AppBlock, events } from "@slflows/sdk/v1";
 
-import { callSlackApi } from "../slackClient.ts";
+import {
+  callSlackApi,
+  emitErrorsConfig,
+  emitSlackApiError,
+  slackApiErrorOutput,
+} from "../slackClient.ts";
+import { resolveInputAuth, teamIdInputConfig } from "../slackAuth.ts";
+import {
+  registerViewInteraction,
+  setViewSubmissionResponse,
+} from "../interactions.ts";
+import { extractViewValues, getViewValuesSchema } from "../viewValues.ts";
+
+// A view object as returned by the views.* methods.
+const slackViewSchema = {
+  type: "object" as const,
+  description: "The view object as returned by Slack.",
+  properties: {
+    id: {
+      type: "string",
+      description: "The unique ID of the view.",
+    },
+    team_id: slackTeamIdSchema,
+    type: {
+      type: "string",
+      enum: ["modal"],
+      description: "The type of view.",
+    },
+    title: {
+      type: "object",
+      properties: {
+        type: { type: "string" },
+        text: { type: "string" },
+      },
+    },
+    blocks: {
+      type: "array",
+      description: "The blocks that were rendered in the view.",
+      items: { type: "object" },
+    },
+    private_metadata: {
+      type: "string",
+      description: "The private metadata that was included.",
+    },
+    callback_id: {
+      type: "string",
+      description: "The callback ID if one was provided.",
+    },
+    state: {
+      type: "object",
+      description: "The current state of the view's interactive components.",
+      properties: {
+        values: {
+          type: "object",
+          description: "Map of block IDs to their current values.",
+        },
+      },
+    },
+    hash: {
+      type: "string",
+      description: "A unique value for this view state.",
+    },
+    clear_on_close: {
+      type: "boolean",
+      description: "Whether the view stack clears on close.",
+    },
+    notify_on_close: {
+      type: "boolean",
+      description: "Whether view_closed events are sent.",
+    },
+    root_view_id: {
+      type: "string",
+      description: "The root view ID if this is part of a view stack.",
+    },
+    app_id: {
+      type: "string",
+      description: "The app ID that opened the view.",
+    },
+    bot_id: {
+      type: "string",
+      description: "The bot ID associated with the app.",
+    },
+    external_id: {
+      type: "string",
+      description: "The external ID if one was provided.",
+    },
+  },
+  required: ["id", "team_id", "type", "title", "blocks", "state", "hash"],
+};
+
+// Input config describing a modal, shared by the blocks that open, push or
+// update views.
+const viewInputConfig = {
+  title: {
+    name: "Title",
+    description: "The title text of the modal (max 24 characters).",
+    type: "string",
+    required: true,
+    default: "Title",
+  },
+  blocks: {
+    name: "Blocks",
+    description: "Array of Block Kit blocks to display in the modal.",
+    type: {
+      type: "array",
+      items: {
+        type: "object",
+      },
+    },
+    required: true,
+  },
+  submit: {
+    name: "Submit Button Text",
+    description: "Optional submit button text (max 24 characters).",
+    type: "string",
+    required: false,
+  },
+  close: {
+    name: "Close Button Text",
+    description: "Optional close button text (max 24 characters).",
+    type: "string",
+    required: false,
+  },
+  callbackId: {
+    name: "Callback ID",
+    description: "An identifier you can use to identify this particular view.",
+    type: "string",
+    required: false,
+  },
+  privateMetadata: {
+    name: "Private Metadata",
+    description:
+      "Private data that will be passed to interaction payloads (max 3000 characters).",
+    type: "string",
+    required: false,
+  },
+  clearOnClose: {
+    name: "Clear on Close",
+    description:
+      "When true, clicking the close button will clear all views in the modal stack.",
+    type: "boolean",
+    required: false,
+  },
+  notifyOnClose: {
+    name: "Notify on Close",
+    description:
+      "When true, Slack will send a view_closed event when the modal is closed.",
+    type: "boolean",
+    required: false,
+  },
+  externalId: {
+    name: "External ID",
+    description: "A unique external ID for the view (max 255 characters).",
+    type: "string",
+    required: false,
+  },
+} as const;
+
+function buildView(config: Record<string, any>) {
+  const {
+    title,
+    blocks,
+    submit,
+    close,
+    callbackId,
+    privateMetadata,
+    clearOnClose,
+    notifyOnClose,
+    externalId,
+  } = config;
+
+  // Build the view object
+  const view: any = {
+    type: "modal",
+    title: {
+      type: "plain_text",
+      text: title,
+    },
+    blocks: blocks,
+  };
+
+  // Add optional fields
+  if (submit) {
+    view.submit = {
+      type: "plain_text",
+      text: submit,
+    };
+  }
+  if (close) {
+    view.close = {
+      type: "plain_text",
+      text: close,
+    };
+  }
+  if (callbackId) view.callback_id = callbackId;
+  if (privateMetadata) view.private_metadata = privateMetadata;
+  if (clearOnClose !== undefined) view.clear_on_close = clearOnClose;
+  if (notifyOnClose !== undefined) view.notify_on_close = notifyOnClose;
+  if (externalId) view.external_id = externalId;
+
+  return view;
+}
 
 export const openViewWithInteractions: AppBlock = {
   name: "Open View With Interactions",
   description:
-    "Opens a modal view with Block Kit blocks and listens for user interactions (form submissions, view closed events).",
+    "Opens a modal view with Block Kit blocks and listens for user interactions (form submissions, view closed events), including those on views pushed on top of it. Form values are also emitted flattened and normalized.",
   category: "Views",
+  config: {
+    emitErrors: emitErrorsConfig,
+    valuesKey: {
+      name: "Key Values By",
+      description:
+        "Whether the flattened form values are keyed by each element's action_id or by its input block's block_id. Set explicit action_ids (or block_ids) on your elements, since Slack generates random ones otherwise. Keys that collide, e.g. the same action_id in two blocks, become 'block_id.action_id'.",
+      type: {
+        type: "string",
+        enum: ["action_id", "block_id"],
+      },
+      default: "action_id",
+      required: false,
+    },
+  },
   inputs: {
     default: {
       name: "Open",
@@ -24,142 +239,56 @@ export const openViewWithInteractions: AppBlock = {
           type: "string",
           required: true,
         },
-        title: {
-          name: "Title",
-          description: "The title text of the modal (max 24 characters).",
-          type: "string",
-          required: true,
-          default: "Title",
-        },
-        blocks: {
-          name: "Blocks",
-          description: "Array of Block Kit blocks to display in the modal.",
-          type: {
-            type: "array",
-            items: {
-              type: "object",
-            },
-          },
-          required: true,
-        },
-        submit: {
-          name: "Submit Button Text",
-          description: "Optional submit button text (max 24 characters).",
-          type: "string",
-          required: false,
-        },
-        close: {
-          name: "Close Button Text",
-          description: "Optional close button text (max 24 characters).",
-          type: "string",
-          required: false,
-        },
-        callbackId: {
-          name: "Callback ID",
-          description:
-            "An identifier you can use to identify this particular view.",
-          type: "string",
-          required: false,
-        },
-        privateMetadata: {
-          name: "Private Metadata",
+        ...viewInputConfig,
+        respondToSubmissions: {
+          name: "Respond To Submissions",
           description:
-            "Private data that will be passed to interaction payloads (max 3000 characters).",
-          type: "string",
-          required: false,
-        },
-        clearOnClose: {
-          name: "Clear on Close",
-          description:
-            "When true, clicking the close button will clear all views in the modal stack.",
+            "If true, Slack's answer to a submission waits (up to ~2.5 seconds) for a 'Respond To View Submission' block, e.g. to show validation errors or the next step. Without a response in time, the modal closes as usual.",
           type: "boolean",
+          default: false,
           required: false,
         },
-        notifyOnClose: {
-          name: "Notify on Close",
+        expiresInSeconds: {
+          name: "Expires In (Seconds)",
           description:
-            "When true, Slack will send a view_closed event when the modal is closed.",
-          type: "boolean",
-          required: false,
-        },
-        externalId: {
-          name: "External ID",
-          description:
-            "A unique external ID for the view (max 255 characters).",
-          type: "string",
+            "If set, submissions are only accepted for this long. Later submissions replace the modal with a 'This request has expired.' note.",
+          type: "number",
           required: false,
         },
+        teamId: teamIdInputConfig,
       },
       async onEvent(input) {
-        const { slackBotToken } = input.app.config;
-        const {
-          triggerId,
-          title,
-          blocks,
-          submit,
-          close,
-          callbackId,
-          privateMetadata,
-          clearOnClose,
-          notifyOnClose,
-          externalId,
-        } = input.event.inputConfig;
-
-        if (!slackBotToken) {
-          throw new Error(
-            "Slack Bot Token not configured in the app. Cannot open view.",
-          );
-        }
-
-        // Build the view object
-        const view: any = {
-          type: "modal",
-          title: {
-            type: "plain_text",
-            text: title,
-          },
-          blocks: blocks,
-        };
-
-        // Add optional fields
-        if (submit) {
-          view.submit = {
-            type: "plain_text",
-            text: submit,
-          };
-        }
-        if (close) {
-          view.close = {
-            type: "plain_text",
-            text: close,
-          };
-        }
-        if (callbackId) view.callback_id = callbackId;
-        if (privateMetadata) view.private_metadata = privateMetadata;
-        if (clearOnClose !== undefined) view.clear_on_close = clearOnClose;
-        if (notifyOnClose !== undefined) view.notify_on_close = notifyOnClose;
-        if (externalId) view.external_id = externalId;
+        const auth = await resolveInputAuth(input);
+        const { triggerId, respondToSubmissions, expiresInSeconds } =
+          input.event.inputConfig;
 
         const slackApiPayload = {
           trigger_id: triggerId,
-          view: JSON.stringify(view), // views.open requires the view to be JSON-encoded
+          view: JSON.stringify(buildView(input.event.inputConfig)), // views.open requires the view to be JSON-encoded
         };
 
         const responseData = await callSlackApi(
           "views.open",
           slackApiPayload,
-          slackBotToken,
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
         );
+        if (!responseData) {
+          return;
+        }
 
         // Store interaction metadata for this view
         const viewId = responseData.view.id;
-        await kv.app.set({
-          key: `view:${viewId}`,
-          value: {
+        await registerViewInteraction(
+          viewId,
+          {
             blockId: input.block.id,
             originalEventId: input.event.id,
+            respondToSubmissions,
           },
-        });
+          expiresInSeconds,
+        );
 
         await events.emit(
           {
@@ -176,6 +305,7 @@ export const openViewWithInteractions: AppBlock = {
 
     if (messageBody.type === "slack_view_interaction") {
       const { payload, originalEventId } = messageBody;
+      const valuesKey = input.block.config.valuesKey || "action_id";
 
       await events.emit(
         {
@@ -190,6 +320,8 @@ export const openViewWithInteractions: AppBlock = {
           view: payload.view,
           response_urls: payload.response_urls,
           actions: payload.actions,
+          values: extractViewValues(payload.view?.state?.values, valuesKey),
+          values_schema: getViewValuesSchema(payload.view?.blocks, valuesKey),
         },
         {
           outputKey: "interaction",
@@ -207,91 +339,7 @@ export const openViewWithInteractions: AppBlock = {
       type: {
         type: "object",
         properties: {
-          view: {
-            type: "object",
-            description: "The opened view object as returned by Slack.",
-            properties: {
-              id: {
-                type: "string",
-                description: "The unique ID of the view.",
-              },
-              team_id: slackTeamIdSchema,
-              type: {
-                type: "string",
-                enum: ["modal"],
-                description: "The type of view.",
-              },
-              title: {
-                type: "object",
-                properties: {
-                  type: { type: "string" },
-                  text: { type: "string" },
-                },
-              },
-              blocks: {
-                type: "array",
-                description: "The blocks that were rendered in the view.",
-                items: { type: "object" },
-              },
-              private_metadata: {
-                type: "string",
-                description: "The private metadata that was included.",
-              },
-              callback_id: {
-                type: "string",
-                description: "The callback ID if one was provided.",
-              },
-              state: {
-                type: "object",
-                description:
-                  "The current state of the view's interactive components.",
-                properties: {
-                  values: {
-                    type: "object",
-                    description: "Map of block IDs to their current values.",
-                  },
-                },
-              },
-              hash: {
-                type: "string",
-                description: "A unique value for this view state.",
-              },
-              clear_on_close: {
-                type: "boolean",
-                description: "Whether the view stack clears on close.",
-              },
-              notify_on_close: {
-                type: "boolean",
-                description: "Whether view_closed events are sent.",
-              },
-              root_view_id: {
-                type: "string",
-                description:
-                  "The root view ID if this is part of a view stack.",
-              },
-              app_id: {
-                type: "string",
-                description: "The app ID that opened the view.",
-              },
-              bot_id: {
-                type: "string",
-                description: "The bot ID associated with the app.",
-              },
-              external_id: {
-                type: "string",
-                description: "The external ID if one was provided.",
-              },
-            },
-            required: [
-              "id",
-              "team_id",
-              "type",
-              "title",
-              "blocks",
-              "state",
-              "hash",
-            ],
-          },
+          view: slackViewSchema,
         },
         required: ["view"],
       },
@@ -299,7 +347,7 @@ export const openViewWithInteractions: AppBlock = {
     interaction: {
       name: "View Interaction",
       description:
-        "Emitted when a user interacts with the view (submits form, closes modal, etc.).",
+        "Emitted when a user interacts with the view (submits form, closes modal, etc.), or with any view pushed on top of it.",
       possiblePrimaryParents: ["default"],
       type: {
         type: "object",
@@ -308,8 +356,9 @@ export const openViewWithInteractions: AppBlock = {
         properties: {
           type: {
             type: "string",
-            enum: ["view_submission", "view_closed"],
-            description: "The type of view interaction.",
+            enum: ["view_submission", "view_closed", "block_actions"],
+            description:
+              "The type of view interaction. Actions inside the modal arrive as 'block_actions'.",
           },
           user: {
             type: "object",
@@ -370,6 +419,17 @@ export const openViewWithInteractions: AppBlock = {
             },
             required: ["id", "type", "state", "hash"],
           },
+          values: {
+            type: "object",
+            description:
+              "The form values flattened to one entry per input, keyed by action_id (or block_id). Text inputs, single selects, radio buttons and pickers give a string (numbers for number inputs, Unix seconds for datetime pickers) or null, multi-selects and checkboxes give an array of selected values.",
+            additionalProperties: true,
+          },
+          values_schema: {
+            type: "object",
+            description:
+              "JSON schema of 'values', derived from the submitted view's blocks. Non-optional input blocks are listed as required.",
+          },
           response_urls: {
             type: "array",
             description:
@@ -383,8 +443,291 @@ export const openViewWithInteractions: AppBlock = {
             },
           },
         },
-        required: ["type", "user", "api_app_id", "token", "team", "view"],
+        required: [
+          "type",
+          "user",
+          "api_app_id",
+          "token",
+          "team",
+          "view",
+          "values",
+          "values_schema",
+        ],
       },
     },
+    error: slackApiErrorOutput,
   },
 } satisfies AppBlock;
+
+// The view fields are optional where a view is only needed for some actions.
+const optionalViewInputConfig = {
+  ...viewInputConfig,
+  title: { ...viewInputConfig.title, required: false },
+  blocks: { ...viewInputConfig.blocks, required: false },
+};
+
+export const updateView: AppBlock = {
+  name: "Update View",
+  description:
+    "Replaces the content of an open modal view, identified by its view ID or external ID.",
+  category: "Views",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
+  inputs: {
+    default: {
+      name: "Update",
+      description: "Trigger updating the view.",
+      config: {
+        viewId: {
+          name: "View ID",
+          description:
+            "The ID of the view to update. Either this or the External ID is required.",
+          type: "string",
+          required: false,
+        },
+        hash: {
+          name: "Hash",
+          description:
+            "The view's hash from its last update. If set, the update fails with 'hash_conflict' when the view changed in the meantime.",
+          type: "string",
+          required: false,
+        },
+        ...viewInputConfig,
+        externalId: {
+          ...viewInputConfig.externalId,
+          description:
+            "The external ID of the view to update. Either this or the View ID is required.",
+        },
+        teamId: teamIdInputConfig,
+      },
+      async onEvent(input) {
+        const auth = await resolveInputAuth(input);
+        const { viewId, hash, externalId } = input.event.inputConfig;
+
+        if (!viewId && !externalId) {
+          throw new Error("Either a view ID or an external ID is required.");
+        }
+
+        const view = buildView(input.event.inputConfig);
+        // The external ID identifies the view to update, so it can't also be
+        // set on the new view.
+        delete view.external_id;
+
+        const responseData = await callSlackApi(
+          "views.update",
+          {
+            ...(viewId ? { view_id: viewId } : { external_id: externalId }),
+            ...(hash && { hash }),
+            view: JSON.stringify(view),
+          },
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
+        );
+        if (!responseData) {
+          return;
+        }
+
+        await events.emit(
+          { view: responseData.view },
+          { outputKey: "updated" },
+        );
+      },
+    },
+  },
+  outputs: {
+    updated: {
+      name: "View Updated",
+      description: "Emitted when the view has been updated.",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          view: slackViewSchema,
+        },
+        required: ["view"],
+      },
+    },
+    error: slackApiErrorOutput,
+  },
+};
+
+export const pushView: AppBlock = {
+  name: "Push View",
+  description:
+    "Pushes a new modal view onto the stack of an open modal. Its interactions are routed to the block that opened the root view.",
+  category: "Views",
+  config: {
+    emitErrors: emitErrorsConfig,
+  },
+  inputs: {
+    default: {
+      name: "Push",
+      description: "Trigger pushing the view.",
+      config: {
+        triggerId: {
+          name: "Trigger ID",
+          description:
+            "The trigger_id received from an interaction inside the open modal.",
+          type: "string",
+          required: true,
+        },
+        ...viewInputConfig,
+        teamId: teamIdInputConfig,
+      },
+      async onEvent(input) {
+        const auth = await resolveInputAuth(input);
+        const { triggerId } = input.event.inputConfig;
+
+        const responseData = await callSlackApi(
+          "views.push",
+          {
+            trigger_id: triggerId,
+            view: JSON.stringify(buildView(input.event.inputConfig)),
+          },
+          auth,
+        ).catch((error) =>
+          emitSlackApiError(error, input.block.config.emitErrors),
+        );
+        if (!responseData) {
+          return;
+        }
+
+        await events.emit({ view: responseData.view }, { outputKey: "pushed" });
+      },
+    },
+  },
+  outputs: {
+    pushed: {
+      name: "View Pushed",
+      description: "Emitted when the view has been pushed.",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          view: slackViewSchema,
+        },
+        required: ["view"],
+      },
+    },
+    error: slackApiErrorOutput,
+  },
+};
+
+export const respondToViewSubmission: AppBlock = {
+  name: "Respond To View Submission",
+  description:
+    "Answers a view submission with a response_action: show validation errors, update the modal, push a new view, or close the whole stack. The opening block must have 'Respond To Submissions' enabled, and this block must run within about 2.5 seconds of the submission.",
+  category: "Views",
+  inputs: {
+    default: {
+      name: "Respond",
+      description: "Set the response to the submission.",
+      config: {
+        viewId: {
+          name: "View ID",
+          description: "The ID of the submitted view (view.id).",
+          type: "string",
+          required: true,
+        },
+        triggerId: {
+          name: "Trigger ID",
+          description:
+            "The trigger_id of the submission, which tells repeated submissions of the same view apart.",
+          type: "string",
+          required: true,
+        },
+        responseAction: {
+          name: "Response Action",
+          description:
+            "'errors' shows errors next to inputs, 'update' replaces the submitted view, 'push' adds a view on top, and 'clear' closes all views.",
+          type: {
+            type: "string",
+            enum: ["errors", "update", "push", "clear"],
+          },
+          required: true,
+        },
+        errors: {
+          name: "Errors",
+          description:
+            'For \'errors\': a map of input block_id to error message, e.g. {"email_block": "Enter a valid email address"}.',
+          type: {
+            type: "object",
+            additionalProperties: { type: "string" },
+          },
+          required: false,
+        },
+        ...optionalViewInputConfig,
+      },
+      async onEvent(input) {
+        const { viewId, triggerId, responseAction, errors } =
+          input.event.inputConfig;
+
+        const response: Record<string, any> = {
+          response_action: responseAction,
+        };
+        if (responseAction === "errors") {
+          if (!errors) {
+            throw new Error("Errors are required for the 'errors' action.");
+          }
+          response.errors = errors;
+        } else if (responseAction === "update" || responseAction === "push") {
+          if (!input.event.inputConfig.blocks) {
+            throw new Error(
+              `Blocks are required for the '${responseAction}' action.`,
+            );
+          }
+          response.view = buildView(input.event.inputConfig);
+        }
+
+        const delivered = await setViewSubmissionResponse(
+          viewId,
+          triggerId,
+          response,
+        );
+        if (!delivered) {
+          console.warn(
+            `Submission ${triggerId} of view ${viewId} is no longer waiting for a response.`,
+          );
+        }
+
+        await events.emit(
+          {
+            view_id: viewId,
+            response_action: responseAction,
+            delivered,
+          },
+          { outputKey: "responded" },
+        );
+      },
+    },
+  },
+  outputs: {
+    responded: {
+      name: "Response Set",
+      description:
+        "Emitted after the response was handed to the waiting submission, or dropped because the submission was no longer waiting (see 'delivered').",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          view_id: { type: "string", description: "The submitted view ID." },
+          response_action: {
+            type: "string",
+            enum: ["errors", "update", "push", "clear"],
+          },
+          delivered: {
+            type: "boolean",
+            description:
+              "False if the submission had already been answered, e.g. because the response came too late. Slack then closed the modal.",
+          },
+        },
+        required: ["view_id", "response_action", "delivered"],
+      },
+    },
+  },
+};
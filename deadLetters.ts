@@ -0,0 +1,76 @@
+import { kv } from "@slflows/sdk/v1";
+
+import * as nodecrypto from "node:crypto";
+import { withKvLock } from "./kvLock.ts";
+
+// Inbound payloads that could not be routed, e.g. a click on a message whose
+// interaction entry is gone, or an event whose routing failed after Slack was
+// already acknowledged. They are kept here so they can be replayed to a block.
+
+// Oldest entries are dropped once the store is full.
+const maxDeadLetters = 100;
+
+const deadLetterIndexKey = "deadLetters";
+const deadLetterKey = (id: string) => `deadLetter:${id}`;
+
+export interface DeadLetter {
+  id: string;
+  source: "events" | "commands" | "interactivity";
+  reason: string;
+  /** The internal message body the payload would have been routed with. */
+  body: any;
+  recordedAt: number;
+}
+
+export async function recordDeadLetter(
+  source: DeadLetter["source"],
+  reason: string,
+  body: any,
+) {
+  const deadLetter: DeadLetter = {
+    id: nodecrypto.randomUUID(),
+    source,
+    reason,
+    body,
+    recordedAt: Date.now(),
+  };
+  console.warn(`Recording dead letter ${deadLetter.id}: ${reason}`);
+  await kv.app.set({ key: deadLetterKey(deadLetter.id), value: deadLetter });
+
+  // Payloads can fail at the same time, so the index is updated under a lock.
+  await withKvLock(kv.app, deadLetterIndexKey, async () => {
+    const ids = [...(await listDeadLetterIds()), deadLetter.id];
+    const evictedIds = ids.slice(0, Math.max(0, ids.length - maxDeadLetters));
+    if (evictedIds.length > 0) {
+      await kv.app.delete(evictedIds.map(deadLetterKey));
+    }
+    await kv.app.set({
+      key: deadLetterIndexKey,
+      value: ids.slice(evictedIds.length),
+    });
+  });
+}
+
+// Oldest first.
+export async function listDeadLetterIds(): Promise<string[]> {
+  const { value } = await kv.app.get(deadLetterIndexKey);
+  return (value as string[]) || [];
+}
+
+export async function getDeadLetter(
+  id: string,
+): Promise<DeadLetter | undefined> {
+  const { value } = await kv.app.get(deadLetterKey(id));
+  return value as DeadLetter | undefined;
+}
+
+export async function deleteDeadLetter(id: string) {
+  await kv.app.delete([deadLetterKey(id)]);
+  await withKvLock(kv.app, deadLetterIndexKey, async () => {
+    const ids = await listDeadLetterIds();
+    await kv.app.set({
+      key: deadLetterIndexKey,
+      value: ids.filter((deadLetterId) => deadLetterId !== id),
+    });
+  });
+}
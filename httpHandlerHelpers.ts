@@ -1,7 +1,22 @@
 import { HTTPRequest, kv, messaging } from "@slflows/sdk/v1";
 
 import * as nodecrypto from "node:crypto";
-import { handleEventSubscriptions } from "./blocks/subscriptions.ts";
+import {
+  handleEventSubscriptions,
+  handleShortcutSubscriptions,
+  handleSlashCommandSubscriptions,
+} from "./blocks/subscriptions.ts";
+import { handleBlockSuggestion } from "./blocks/optionsProvider.ts";
+import { recordDeadLetter } from "./deadLetters.ts";
+import {
+  interactionRefusalMessages,
+  lookupMessageInteraction,
+  lookupViewInteraction,
+  startViewSubmissionWait,
+  viewSubmissionResponseWaitMs,
+  waitForViewSubmissionResponse,
+} from "./interactions.ts";
+import { postToResponseUrl, trackResponseUrl } from "./slackClient.ts";
 
 // Helper for Slack signature verification
 // This might need to be adapted based on the exact crypto primitives available
@@ -63,22 +78,210 @@ export async function verifySlackRequest(
     return false;
   }
 }
+
+// While a signing secret is being rotated, requests may be signed with
+// either the current or the previous secret.
+export type SigningSecretSlot = "primary" | "secondary";
+
+const signingSecretUsageKey = "diagnostics:signingSecretUsage";
+
+// Only persist a new "last matched" time once a minute, to avoid a write on
+// every request.
+const signingSecretUsageResolutionMs = 60 * 1000;
+
+export type SigningSecretUsage = Partial<
+  Record<SigningSecretSlot, { lastMatchedAt: number }>
+>;
+
+export async function getSigningSecretUsage(): Promise<SigningSecretUsage> {
+  const { value } = await kv.app.get(signingSecretUsageKey);
+  return (value as SigningSecretUsage) || {};
+}
+
+async function recordSigningSecretMatch(slot: SigningSecretSlot) {
+  const usage = await getSigningSecretUsage();
+  const now = Date.now();
+  if (
+    now - (usage[slot]?.lastMatchedAt ?? 0) <
+    signingSecretUsageResolutionMs
+  ) {
+    return;
+  }
+
+  usage[slot] = { lastMatchedAt: now };
+  await kv.app.set({ key: signingSecretUsageKey, value: usage });
+}
+
+// Returns which signing secret the request was signed with, if any.
+export async function verifySlackRequestWithSecrets(
+  request: HTTPRequest,
+  primarySecret: string,
+  secondarySecret?: string,
+): Promise<SigningSecretSlot | undefined> {
+  let slot: SigningSecretSlot | undefined;
+  if (await verifySlackRequest(request, primarySecret)) {
+    slot = "primary";
+  } else if (
+    secondarySecret &&
+    (await verifySlackRequest(request, secondarySecret))
+  ) {
+    slot = "secondary";
+  }
+
+  if (slot) {
+    await recordSigningSecretMatch(slot);
+  }
+  return slot;
+}
+// Slack retries a delivery up to 3 times over roughly an hour, so remembering
+// event IDs for that long is enough to catch every retry.
+const eventDedupTtlSeconds = 60 * 60;
+const eventDeliveryStatsKey = "diagnostics:eventDelivery";
+
+export interface EventDeliveryStats {
+  retriesReceived: number;
+  duplicatesDropped: number;
+  retryReasons: Record<string, number>;
+  lastRetryAt?: number;
+}
+
+export async function getEventDeliveryStats(): Promise<EventDeliveryStats> {
+  const { value } = await kv.app.get(eventDeliveryStatsKey);
+  return (
+    (value as EventDeliveryStats) || {
+      retriesReceived: 0,
+      duplicatesDropped: 0,
+      retryReasons: {},
+    }
+  );
+}
+
+async function recordEventRetry(retryReason: string, isDuplicate: boolean) {
+  const stats = await getEventDeliveryStats();
+  stats.retriesReceived++;
+  stats.retryReasons[retryReason] = (stats.retryReasons[retryReason] || 0) + 1;
+  stats.lastRetryAt = Date.now();
+  if (isDuplicate) {
+    stats.duplicatesDropped++;
+  }
+  await kv.app.set({ key: eventDeliveryStatsKey, value: stats });
+}
+
+// Returns true if this event_id was already received, recording it otherwise.
+// Retries can arrive at once, so the first delivery claims the event_id with
+// a lock that is never released, and every later one fails to claim it.
+async function isDuplicateEvent(eventId: string): Promise<boolean> {
+  const claimId = nodecrypto.randomUUID();
+  const claimed = await kv.app.set({
+    key: `event:${eventId}`,
+    value: claimId,
+    ttl: eventDedupTtlSeconds,
+    lock: { id: claimId, timeout: eventDedupTtlSeconds },
+  });
+  return !claimed;
+}
+
+// App-level allowlists for inbound payloads. An empty or missing list
+// allows any value.
+export interface PayloadAllowlist {
+  allowedAppIds?: string[];
+  allowedTeamIds?: string[];
+  allowedEnterpriseIds?: string[];
+}
+
+// Returns why a payload is rejected by the allowlists, if it is. Payloads
+// name their workspace as `team_id` or `team: {id}`, and the same for
+// enterprises.
+function getAllowlistRejection(
+  payload: any,
+  allowlist: PayloadAllowlist,
+): string | undefined {
+  const identifiers: [string, string | undefined, string[] | undefined][] = [
+    ["api_app_id", payload.api_app_id, allowlist.allowedAppIds],
+    ["team_id", payload.team_id || payload.team?.id, allowlist.allowedTeamIds],
+    [
+      "enterprise_id",
+      payload.enterprise_id || payload.enterprise?.id,
+      allowlist.allowedEnterpriseIds,
+    ],
+  ];
+
+  for (const [name, value, allowed] of identifiers) {
+    if (allowed && allowed.length > 0 && (!value || !allowed.includes(value))) {
+      return `${name} ${value || "(missing)"} is not allowed`;
+    }
+  }
+  return undefined;
+}
+
+function rejectPayload(endpoint: string, reason: string) {
+  console.warn(`Rejected Slack payload on ${endpoint}: ${reason}.`);
+  return { statusCode: 403, body: { error: "Payload not allowed" } };
+}
+
+export interface EndpointResponse {
+  statusCode: number;
+  body?: any;
+  // Work to run after the response has been sent to Slack.
+  deferred?: () => Promise<void>;
+}
+
+// Slack expects an acknowledgement within 3 seconds, so routing an event to
+// its subscribers runs after the response. A failure only affects this
+// event, and is recorded for replay since Slack won't retry it.
+async function routeEventCallback(payload: any) {
+  try {
+    // The envelope team_id is the workspace the app is installed in.
+    await handleEventSubscriptions(payload.event, payload.team_id);
+  } catch (error) {
+    console.error(`Failed to route event ${payload.event_id}:`, error);
+    await recordDeadLetter(
+      "events",
+      `Routing failed: ${error instanceof Error ? error.message : error}`,
+      payload.event,
+    );
+  }
+}
+
 /// Handle Slack Events API endpoint
 export async function handleEventsEndpoint(
   payload: any,
-): Promise<{ statusCode: number; body?: any }> {
+  headers: Record<string, string> = {},
+  allowlist: PayloadAllowlist = {},
+): Promise<EndpointResponse> {
   if (payload.type === "url_verification") {
     console.log("Handling Slack URL verification challenge for /events.");
     return { statusCode: 200, body: payload.challenge };
   }
 
+  const rejection = getAllowlistRejection(payload, allowlist);
+  if (rejection) {
+    return rejectPayload("/events", rejection);
+  }
+
   if (payload.type === "event_callback") {
     const event = payload.event;
     console.log(`Received Slack event_callback on /events: ${event.type}`);
 
-    await handleEventSubscriptions(event);
+    const isDuplicate = payload.event_id
+      ? await isDuplicateEvent(payload.event_id)
+      : false;
 
-    return { statusCode: 200 };
+    const retryNum = headers["X-Slack-Retry-Num"];
+    if (retryNum) {
+      const retryReason = headers["X-Slack-Retry-Reason"] || "unknown";
+      console.log(
+        `Slack retry #${retryNum} (${retryReason}) for event ${payload.event_id}.`,
+      );
+      await recordEventRetry(retryReason, isDuplicate);
+    }
+
+    if (isDuplicate) {
+      console.log(`Dropping duplicate delivery of event ${payload.event_id}.`);
+      return { statusCode: 200 };
+    }
+
+    return { statusCode: 200, deferred: () => routeEventCallback(payload) };
   }
 
   console.warn(
@@ -89,10 +292,102 @@ export async function handleEventsEndpoint(
   return { statusCode: 200 };
 }
 
+// Handle Slack slash command endpoint
+export async function handleCommandsEndpoint(
+  payload: any,
+  allowlist: PayloadAllowlist = {},
+): Promise<EndpointResponse> {
+  const rejection = getAllowlistRejection(payload, allowlist);
+  if (rejection) {
+    return rejectPayload("/commands", rejection);
+  }
+
+  const command = payload.command;
+  console.log(`Received Slack slash command on /commands: ${command}`);
+
+  await trackResponseUrl(payload.response_url);
+
+  await handleSlashCommandSubscriptions(payload);
+
+  // An empty 200 acknowledges the command without posting anything. Responses
+  // are sent later through the response_url.
+  return { statusCode: 200 };
+}
+
+// Tells the clicking user why nothing happened, visible only to them.
+async function replyInteractionRefused(
+  payload: any,
+  status: "expired" | "answered",
+) {
+  if (!payload.response_url) {
+    return;
+  }
+
+  try {
+    await postToResponseUrl(payload.response_url, {
+      response_type: "ephemeral",
+      replace_original: false,
+      text: interactionRefusalMessages[status],
+    });
+  } catch (error) {
+    console.warn("Failed to reply to a refused interaction:", error);
+  }
+}
+
+// Submissions can't be answered through a response_url, so the modal itself
+// is replaced with the explanation.
+function getRefusedSubmissionResponse(
+  payload: any,
+  status: "expired" | "answered",
+) {
+  return {
+    response_action: "update",
+    view: {
+      type: "modal",
+      title: payload.view.title,
+      blocks: [
+        {
+          type: "section",
+          text: { type: "mrkdwn", text: interactionRefusalMessages[status] },
+        },
+      ],
+    },
+  };
+}
+
 // Handle Slack Interactivity endpoint
 export async function handleInteractivityEndpoint(
   payload: any,
-): Promise<{ statusCode: number }> {
+  allowlist: PayloadAllowlist = {},
+  // When the request arrived, since Slack's 3-second limit counts from then.
+  receivedAt: number = Date.now(),
+): Promise<EndpointResponse> {
+  const rejection = getAllowlistRejection(payload, allowlist);
+  if (rejection) {
+    return rejectPayload("/interactivity", rejection);
+  }
+
+  if (payload.type === "block_suggestion") {
+    console.log(
+      `Received Slack block_suggestion on /interactivity: ${payload.action_id}`,
+    );
+
+    // Options must be returned in the response body, not sent asynchronously.
+    const options = await handleBlockSuggestion(payload);
+    return { statusCode: 200, body: { options } };
+  }
+
+  if (payload.type === "shortcut" || payload.type === "message_action") {
+    console.log(
+      `Received Slack shortcut on /interactivity: ${payload.type} ${payload.callback_id}`,
+    );
+
+    await trackResponseUrl(payload.response_url);
+    await handleShortcutSubscriptions(payload);
+
+    return { statusCode: 200 };
+  }
+
   if (
     payload.type === "interactive_message" ||
     payload.type === "block_actions" ||
@@ -103,23 +398,63 @@ export async function handleInteractivityEndpoint(
       `Received Slack interactivity payload on /interactivity: ${payload.type}`,
     );
 
-    // Handle view interactions (view_submission, view_closed)
-    if (payload.type === "view_submission" || payload.type === "view_closed") {
+    await trackResponseUrl(payload.response_url);
+    for (const { response_url } of payload.response_urls || []) {
+      await trackResponseUrl(response_url);
+    }
+
+    // Handle view interactions (view_submission, view_closed, and actions
+    // inside a modal)
+    if (
+      payload.type === "view_submission" ||
+      payload.type === "view_closed" ||
+      payload.container?.type === "view"
+    ) {
       const viewId = payload.view?.id;
       if (viewId) {
-        const interactionData = await kv.app.get(`view:${viewId}`);
-        if (interactionData && interactionData.value) {
-          const { blockId, originalEventId } = interactionData.value as any;
+        const lookup = await lookupViewInteraction(payload.view);
+        if (lookup.status === "routable") {
+          const { blockId, originalEventId, respondToSubmissions } =
+            lookup.registration;
           console.log(
             `Routing view interaction for view ${viewId} to block ${blockId}`,
           );
 
+          const awaitResponse =
+            payload.type === "view_submission" && respondToSubmissions;
+          if (awaitResponse) {
+            await startViewSubmissionWait(viewId, payload.trigger_id);
+          }
+
           await messaging.sendToBlocks({
             blockIds: [blockId],
             body: { type: "slack_view_interaction", payload, originalEventId },
           });
+
+          if (awaitResponse) {
+            const response = await waitForViewSubmissionResponse(
+              viewId,
+              payload.trigger_id,
+              receivedAt + viewSubmissionResponseWaitMs,
+            );
+            if (response) {
+              return { statusCode: 200, body: response };
+            }
+          }
+        } else if (lookup.status === "missing") {
+          await recordDeadLetter(
+            "interactivity",
+            `No interaction data found for viewId: ${viewId}`,
+            { type: "slack_view_interaction", payload },
+          );
         } else {
-          console.warn(`No interaction data found for viewId: ${viewId}`);
+          console.log(`Refusing ${lookup.status} view interaction: ${viewId}`);
+          if (payload.type === "view_submission") {
+            return {
+              statusCode: 200,
+              body: getRefusedSubmissionResponse(payload, lookup.status),
+            };
+          }
         }
       } else {
         console.warn(
@@ -135,19 +470,32 @@ export async function handleInteractivityEndpoint(
         payload.message_ts;
 
       if (messageTs) {
-        const interactionData = await kv.app.get(`interaction:${messageTs}`);
-        if (interactionData && interactionData.value) {
-          const { blockId, originalEventId } = interactionData.value as any;
+        const lookup = await lookupMessageInteraction(messageTs);
+        if (lookup.status === "routable") {
+          const { blockId, originalEventId, singleResponse } =
+            lookup.registration;
           console.log(
             `Routing interaction for message ${messageTs} to block ${blockId}`,
           );
 
           await messaging.sendToBlocks({
             blockIds: [blockId],
-            body: { type: "slack_interaction", payload, originalEventId },
+            body: {
+              type: "slack_interaction",
+              payload,
+              originalEventId,
+              singleResponse,
+            },
           });
+        } else if (lookup.status === "missing") {
+          await recordDeadLetter(
+            "interactivity",
+            `No interaction data found for messageId: ${messageTs}`,
+            { type: "slack_interaction", payload },
+          );
         } else {
-          console.warn(`No interaction data found for messageId: ${messageTs}`);
+          console.log(`Refusing ${lookup.status} interaction: ${messageTs}`);
+          await replyInteractionRefused(payload, lookup.status);
         }
       } else {
         console.warn(
@@ -0,0 +1,267 @@
+import { kv } from "@slflows/sdk/v1";
+
+import * as nodecrypto from "node:crypto";
+import { callSlackApi, SlackApiAuth } from "./slackClient.ts";
+
+// Expired registrations are kept this much longer, so late clicks can still
+// be told that the request expired instead of silently becoming dead letters.
+const expiredInteractionGraceSeconds = 24 * 60 * 60;
+
+export interface InteractionRegistration {
+  blockId: string;
+  originalEventId: string;
+  /** Epoch milliseconds after which interactions are refused. */
+  expiresAt?: number;
+  /** Only the first interaction is routed; later ones are refused. */
+  singleResponse?: boolean;
+  /** View submissions wait for a flow to set the response_action. */
+  respondToSubmissions?: boolean;
+}
+
+const messageInteractionKey = (messageTs: string) => `interaction:${messageTs}`;
+const viewInteractionKey = (viewId: string) => `view:${viewId}`;
+const interactionClaimKey = (key: string) => `${key}:claim`;
+
+async function saveRegistration(
+  key: string,
+  registration: InteractionRegistration,
+  expiresInSeconds?: number,
+) {
+  if (!expiresInSeconds) {
+    await kv.app.set({ key, value: registration });
+    return;
+  }
+
+  await kv.app.set({
+    key,
+    value: { ...registration, expiresAt: Date.now() + expiresInSeconds * 1000 },
+    ttl: expiresInSeconds + expiredInteractionGraceSeconds,
+  });
+}
+
+// Routes interactions with a posted message back to the block that posted it.
+export async function registerMessageInteraction(
+  messageTs: string,
+  registration: InteractionRegistration,
+  expiresInSeconds?: number,
+) {
+  await saveRegistration(
+    messageInteractionKey(messageTs),
+    registration,
+    expiresInSeconds,
+  );
+}
+
+// Routes submissions and closes of an opened view back to the block that
+// opened it.
+export async function registerViewInteraction(
+  viewId: string,
+  registration: InteractionRegistration,
+  expiresInSeconds?: number,
+) {
+  await saveRegistration(
+    viewInteractionKey(viewId),
+    registration,
+    expiresInSeconds,
+  );
+}
+
+export type InteractionLookup =
+  | { status: "routable"; registration: InteractionRegistration }
+  | { status: "expired" | "answered" | "missing" };
+
+async function lookupInteraction(key: string): Promise<InteractionLookup> {
+  const { value } = await kv.app.get(key);
+  const registration = value as InteractionRegistration | undefined;
+  if (!registration) {
+    return { status: "missing" };
+  }
+  if (registration.expiresAt && registration.expiresAt <= Date.now()) {
+    return { status: "expired" };
+  }
+  if (!registration.singleResponse) {
+    return { status: "routable", registration };
+  }
+
+  return (await claimInteraction(key, registration))
+    ? { status: "routable", registration }
+    : { status: "answered" };
+}
+
+// Two clicks can arrive at once, so the first one claims a single-response
+// registration with a lock that is never released. The claim lives as long
+// as the registration, so an answered message cannot be answered again.
+async function claimInteraction(
+  key: string,
+  registration: InteractionRegistration,
+): Promise<boolean> {
+  const claimId = nodecrypto.randomUUID();
+  if (!registration.expiresAt) {
+    return await kv.app.set({
+      key: interactionClaimKey(key),
+      value: claimId,
+      lock: { id: claimId },
+    });
+  }
+
+  const claimSeconds =
+    Math.ceil((registration.expiresAt - Date.now()) / 1000) +
+    expiredInteractionGraceSeconds;
+  return await kv.app.set({
+    key: interactionClaimKey(key),
+    value: claimId,
+    ttl: claimSeconds,
+    lock: { id: claimId, timeout: claimSeconds },
+  });
+}
+
+// Claims a single-response message on behalf of its deadline. Returns false
+// if a user has already answered it.
+export async function claimMessageInteraction(
+  messageTs: string,
+): Promise<boolean> {
+  const key = messageInteractionKey(messageTs);
+  const { value } = await kv.app.get(key);
+  const registration = value as InteractionRegistration | undefined;
+  // Without a registration, clicks are no longer routed anyway.
+  if (!registration) {
+    return true;
+  }
+  return claimInteraction(key, registration);
+}
+
+export async function lookupMessageInteraction(
+  messageTs: string,
+): Promise<InteractionLookup> {
+  return lookupInteraction(messageInteractionKey(messageTs));
+}
+
+// Views pushed onto a stack are routed like the view at its root, unless
+// they were registered themselves.
+export async function lookupViewInteraction(view: {
+  id: string;
+  root_view_id?: string;
+}): Promise<InteractionLookup> {
+  const lookup = await lookupInteraction(viewInteractionKey(view.id));
+  if (
+    lookup.status !== "missing" ||
+    !view.root_view_id ||
+    view.root_view_id === view.id
+  ) {
+    return lookup;
+  }
+  return lookupInteraction(viewInteractionKey(view.root_view_id));
+}
+
+// Slack waits 3 seconds for the response to a view_submission, so a flow
+// has a little less than that, counted from when the request arrived, to
+// provide its response_action.
+export const viewSubmissionResponseWaitMs = 2_500;
+const viewSubmissionResponsePollMs = 100;
+
+// A view keeps its ID across submissions (e.g. after an 'errors' response),
+// so responses are keyed by the submission's trigger_id as well.
+const viewSubmissionKey = (viewId: string, triggerId: string) =>
+  `viewSubmission:${viewId}:${triggerId}`;
+const viewSubmissionWaitingKey = (viewId: string, triggerId: string) =>
+  `${viewSubmissionKey(viewId, triggerId)}:waiting`;
+const viewSubmissionResponseKey = (viewId: string, triggerId: string) =>
+  `${viewSubmissionKey(viewId, triggerId)}:response`;
+
+// Marks a submission as waiting for its response, before it is routed.
+export async function startViewSubmissionWait(
+  viewId: string,
+  triggerId: string,
+) {
+  await kv.app.set({
+    key: viewSubmissionWaitingKey(viewId, triggerId),
+    value: true,
+    ttl: 10,
+  });
+}
+
+// Stores the response for a waiting submission. Returns false, without
+// storing it, if the submission is no longer waiting.
+export async function setViewSubmissionResponse(
+  viewId: string,
+  triggerId: string,
+  response: Record<string, any>,
+): Promise<boolean> {
+  const { value: waiting } = await kv.app.get(
+    viewSubmissionWaitingKey(viewId, triggerId),
+  );
+  if (!waiting) {
+    return false;
+  }
+
+  await kv.app.set({
+    key: viewSubmissionResponseKey(viewId, triggerId),
+    value: response,
+    ttl: 10,
+  });
+  return true;
+}
+
+export async function waitForViewSubmissionResponse(
+  viewId: string,
+  triggerId: string,
+  deadline: number,
+): Promise<Record<string, any> | undefined> {
+  const key = viewSubmissionResponseKey(viewId, triggerId);
+
+  try {
+    while (Date.now() < deadline) {
+      const { value } = await kv.app.get(key);
+      if (value) {
+        return value as Record<string, any>;
+      }
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, viewSubmissionResponsePollMs),
+      );
+    }
+
+    console.warn(`No response_action was set in time for view ${viewId}.`);
+    return undefined;
+  } finally {
+    await kv.app.delete([viewSubmissionWaitingKey(viewId, triggerId), key]);
+  }
+}
+
+export const interactionRefusalMessages = {
+  expired: "This request has expired.",
+  answered: "This request has already been answered.",
+};
+
+// Replaces the actions blocks of a message with a single context line, so its
+// buttons and menus can no longer be used.
+export async function disableMessageActions(
+  auth: SlackApiAuth,
+  channel: string,
+  ts: string,
+  blocks: any[],
+  note: string,
+) {
+  const noteBlock = {
+    type: "context",
+    elements: [{ type: "mrkdwn", text: note }],
+  };
+  const firstActionsIndex = blocks.findIndex(
+    (block) => block.type === "actions",
+  );
+
+  await callSlackApi(
+    "chat.update",
+    {
+      channel,
+      ts,
+      blocks: blocks.flatMap((block, index) => {
+        if (block.type !== "actions") {
+          return [block];
+        }
+        return index === firstActionsIndex ? [noteBlock] : [];
+      }),
+    },
+    auth,
+  );
+}
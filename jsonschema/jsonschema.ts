@@ -403,3 +403,45 @@ export const slackBotProfileSchema = {
   },
   required: ["id", "deleted", "name", "updated", "app_id", "icons", "team_id"],
 };
+
+export const slackApiErrorSchema: JsonSchema = {
+  type: "object",
+  description:
+    "Details of a failed Slack Web API call. See https://api.slack.com/web#responses for the error format.",
+  properties: {
+    method: {
+      type: "string",
+      description: "The Slack API method that failed (e.g., chat.postMessage).",
+    },
+    error: {
+      type: "string",
+      description:
+        "The Slack error code (e.g., 'channel_not_found', 'not_in_channel', 'missing_scope').",
+    },
+    statusCode: {
+      type: "number",
+      description: "The HTTP status code of the failed response.",
+    },
+    needed: {
+      type: "string",
+      description:
+        "Optional. The OAuth scope(s) required by the method, for 'missing_scope' errors.",
+    },
+    provided: {
+      type: "string",
+      description:
+        "Optional. The OAuth scopes granted to the token, for 'missing_scope' errors.",
+    },
+    warning: {
+      type: "string",
+      description: "Optional. Comma-separated warnings returned by Slack.",
+    },
+    messages: {
+      type: "array",
+      items: { type: "string" },
+      description:
+        "Additional error or warning messages from response_metadata.messages.",
+    },
+  },
+  required: ["method", "error", "statusCode", "messages"],
+};
@@ -0,0 +1,42 @@
+import { kv } from "@slflows/sdk/v1";
+
+import * as nodecrypto from "node:crypto";
+
+// How long a holder may keep a lock before others may take it over, and how
+// long they wait for it.
+const kvLockSeconds = 10;
+const kvLockPollMs = 100;
+
+type KVStore = typeof kv.app | typeof kv.block;
+
+// Runs fn while holding a lock on `${key}:lock`, for read-modify-write
+// updates of a keyvalue entry that several handlers may update at once.
+export async function withKvLock<T>(
+  store: KVStore,
+  key: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const lockKey = `${key}:lock`;
+  const lockId = nodecrypto.randomUUID();
+  const deadline = Date.now() + kvLockSeconds * 1000;
+
+  while (
+    !(await store.set({
+      key: lockKey,
+      value: lockId,
+      ttl: kvLockSeconds,
+      lock: { id: lockId, timeout: kvLockSeconds },
+    }))
+  ) {
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for the lock on ${key}.`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, kvLockPollMs));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await store.delete([lockKey]);
+  }
+}
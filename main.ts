@@ -1,21 +1,59 @@
-import { defineApp, http, lifecycle } from "@slflows/sdk/v1";
+import {
+  AppBlock,
+  defineApp,
+  http,
+  kv,
+  lifecycle,
+  timers,
+} from "@slflows/sdk/v1";
 
+import * as nodecrypto from "node:crypto";
 import sendTextMessage from "./blocks/sendTextMessage.ts";
 import {
   appMentionSubscription,
+  invalidateSubscriptionRoutingIndex,
   messagesSubscription,
   reactionsSubscription,
+  shortcutSubscription,
+  slashCommandSubscription,
 } from "./blocks/subscriptions.ts";
 import {
+  handleCommandsEndpoint,
+  getEventDeliveryStats,
   handleEventsEndpoint,
   handleInteractivityEndpoint,
-  verifySlackRequest,
+  getSigningSecretUsage,
+  verifySlackRequestWithSecrets,
 } from "./httpHandlerHelpers.ts";
+import {
+  applySlackManifest,
+  auditScopes,
+  buildSlackManifest,
+  describeMissingScopes,
+  getRequiredBotScopes,
+  getSyncedBlockTypeIds,
+  listBlockTypeIdsInUse,
+  syncAppOnBlockChange,
+} from "./manifest.ts";
+import {
+  getInstallUrl,
+  getOAuthRedirectUrl,
+  handleOAuthCallback,
+  listInstallations,
+  oauthCallbackPath,
+  oauthInstallPath,
+  startOAuthInstall,
+} from "./oauth.ts";
+import { resolveSlackAuth } from "./slackAuth.ts";
+import { getSlackApiUrl } from "./slackClient.ts";
+import { startSocketMode, stopSocketMode } from "./socketMode.ts";
 import sendMessageBlocks from "./blocks/sendMessageBlocks.ts";
 import sendEphemeralMessageBlocks from "./blocks/sendEphemeralMessageBlocks.ts";
 import updateMessageBlocks from "./blocks/updateMessageBlocks.ts";
 import deleteMessage from "./blocks/deleteMessage.ts";
 import sendMessageWithInteractions from "./blocks/sendMessageWithInteractions.ts";
+import sendResponse from "./blocks/sendResponse.ts";
+import { approval } from "./blocks/approval.ts";
 import {
   addReaction,
   getReactions,
@@ -37,17 +75,138 @@ import {
   unarchiveChannel,
 } from "./blocks/channels.ts";
 import { authMetadata } from "./blocks/auth.ts";
-import { openViewWithInteractions } from "./blocks/views.ts";
+import {
+  openViewWithInteractions,
+  pushView,
+  respondToViewSubmission,
+  updateView,
+} from "./blocks/views.ts";
 import { conversation } from "./blocks/conversation.ts";
 import { botThread } from "./blocks/botThread.ts";
 import { getThread } from "./blocks/getThread.ts";
+import { optionsProvider } from "./blocks/optionsProvider.ts";
+import { deadLetters } from "./blocks/deadLetters.ts";
 
 const slackAppCreationPromptKey = "slackAppCreationPrompt";
+const slackOAuthInstallPromptKey = "slackOAuthInstallPrompt";
+
+async function deletePromptIfExists(
+  prompts: Record<string, unknown>,
+  promptKey: string,
+) {
+  if (!(promptKey in prompts)) {
+    return;
+  }
+  try {
+    await lifecycle.prompt.delete(promptKey);
+  } catch (e: any) {
+    console.warn(`Failed to delete old prompt ${promptKey}: ${e.message}`);
+  }
+}
+
+// With an app configuration token, pushes manifest changes (scopes, events,
+// commands, shortcuts) to the existing Slack app. Returns a status note for
+// anything the user has to act on.
+async function syncManifest(
+  config: Record<string, any>,
+  httpUrl: string,
+  blockTypeIds: string[],
+): Promise<string | undefined> {
+  if (
+    !(config.slackAppConfigToken || config.slackAppConfigRefreshToken) ||
+    !config.slackAppId
+  ) {
+    return undefined;
+  }
+
+  try {
+    const manifest = await buildSlackManifest(
+      httpUrl,
+      !!config.useSocketMode,
+      blockTypeIds,
+      !!config.narrowScopesToBlocksInUse,
+    );
+    const { permissionsUpdated } = await applySlackManifest(config, manifest);
+    return permissionsUpdated
+      ? "Slack app scopes changed, reinstall the app to grant them."
+      : undefined;
+  } catch (error: any) {
+    console.error(`Failed to update the Slack app manifest: ${error.message}`);
+    return `Manifest update failed: ${error.message}`;
+  }
+}
+
+const socketModeHealthCheckKey = "socketMode:healthCheck";
+const socketModeHealthCheckSeconds = 60;
+
+// The Socket Mode connection only lives in this process, so a recurring timer
+// reopens it when it is gone, e.g. after the app was restarted. Each sync
+// starts a new chain of timers under a new ID, which ends the previous one.
+async function scheduleSocketModeHealthCheck(healthCheckId: string) {
+  await timers.set(socketModeHealthCheckSeconds, {
+    inputPayload: { socketModeHealthCheckId: healthCheckId },
+    description: "Socket Mode health check",
+  });
+}
+
+// Opens or closes the Socket Mode connection to match the app config.
+// Returns false if the connection could not be opened.
+async function syncSocketMode(config: Record<string, any>): Promise<boolean> {
+  if (!config.useSocketMode) {
+    stopSocketMode();
+    await kv.app.delete([socketModeHealthCheckKey]);
+    return true;
+  }
+
+  const healthCheckId = nodecrypto.randomUUID();
+  await kv.app.set({ key: socketModeHealthCheckKey, value: healthCheckId });
+  await scheduleSocketModeHealthCheck(healthCheckId);
+
+  return openSocketMode(config);
+}
+
+// Opens the Socket Mode connection, unless it is already open.
+async function openSocketMode(config: Record<string, any>): Promise<boolean> {
+  try {
+    await startSocketMode(
+      {
+        token: config.slackAppToken,
+        baseUrl: config.slackApiBaseUrl,
+      },
+      config,
+    );
+    return true;
+  } catch (error: any) {
+    console.error(
+      `Failed to open Slack Socket Mode connection: ${error.message}`,
+    );
+    return false;
+  }
+}
+
+// Re-syncs the app after a block sync when the block changes what the
+// manifest, install URL or scope audit are built from.
+function withManifestSync(
+  appBlocks: Record<string, AppBlock>,
+): Record<string, AppBlock> {
+  return Object.fromEntries(
+    Object.entries(appBlocks).map(([blockTypeId, block]) => {
+      const onSync: AppBlock["onSync"] = async (input) => {
+        const result = block.onSync
+          ? await block.onSync(input)
+          : { newStatus: "ready" as const };
+        await syncAppOnBlockChange(blockTypeId, input.block.config);
+        return result;
+      };
+      return [blockTypeId, { ...block, onSync }];
+    }),
+  );
+}
 
 export const app = defineApp({
   name: "Slack",
   installationInstructions:
-    "To connect your Slack workspace:\n1. **Use an existing Slack App**: Fill in the 'Slack Bot Token' and 'Slack Signing Secret' fields below with your app's credentials, then confirm the installation.\n2. **Create a new Slack App**: Leave the token and secret fields blank. After you click 'Confirm', you will be guided through creating a new Slack app using a pre-configured manifest. You'll then copy the generated token and secret back into this configuration.",
+    "To connect your Slack workspace:\n1. **Use an existing Slack App**: Fill in the 'Slack Bot Token' and 'Slack Signing Secret' fields below with your app's credentials (or, with 'Use Socket Mode', the 'Slack App-Level Token' instead of the signing secret), then confirm the installation.\n2. **Create a new Slack App**: Leave the token and secret fields blank. After you click 'Confirm', you will be guided through creating a new Slack app using a pre-configured manifest. You'll then copy the generated token and secret back into this configuration.\n3. **Install into several workspaces**: Leave the Bot Token blank and fill in the 'Slack Client ID' and 'Slack Client Secret' of a distributable Slack app (plus the Signing Secret or App-Level Token). You'll then get an 'Add to Slack' link that can be used to install the app into each workspace.",
   config: {
     slackBotToken: {
       name: "Slack Bot Token (xoxb-)",
@@ -57,6 +216,14 @@ export const app = defineApp({
       sensitive: true,
       required: false, // Becomes effectively required for 'ready' state by onSync
     },
+    slackRefreshToken: {
+      name: "Slack Refresh Token (xoxe-)",
+      description:
+        "For apps with token rotation enabled: the refresh token (starts with 'xoxe-'). The 12-hour bot token is then renewed automatically and kept in the app's key-value store; the Bot Token field is optional. Requires the Client ID and Client Secret.",
+      type: "string",
+      sensitive: true,
+      required: false,
+    },
     slackSigningSecret: {
       name: "Slack Signing Secret",
       description:
@@ -65,6 +232,104 @@ export const app = defineApp({
       sensitive: true,
       required: false, // Becomes effectively required for 'ready' state by onSync
     },
+    slackSigningSecretSecondary: {
+      name: "Slack Signing Secret (Secondary)",
+      description:
+        "Optional. A second signing secret that is also accepted, for rotating the secret without rejected requests: add the new secret here, regenerate it in Slack, then move it to the primary field. The 'Signing Secret Usage' signal shows when each secret last matched.",
+      type: "string",
+      sensitive: true,
+      required: false,
+    },
+    allowedAppIds: {
+      name: "Allowed App IDs",
+      description:
+        'Optional. Only accept inbound payloads whose api_app_id is in this list (e.g., ["A0123ABC"]). Protects against another Slack app, such as a staging one, sending to this endpoint.',
+      type: { type: "array", items: { type: "string" } },
+      required: false,
+    },
+    allowedTeamIds: {
+      name: "Allowed Team IDs",
+      description:
+        'Optional. Only accept inbound payloads from these workspaces (team_id, e.g., ["T0123ABC"]).',
+      type: { type: "array", items: { type: "string" } },
+      required: false,
+    },
+    allowedEnterpriseIds: {
+      name: "Allowed Enterprise IDs",
+      description:
+        'Optional. Only accept inbound payloads from these Enterprise Grid organizations (enterprise_id, e.g., ["E0123ABC"]).',
+      type: { type: "array", items: { type: "string" } },
+      required: false,
+    },
+    useSocketMode: {
+      name: "Use Socket Mode",
+      description:
+        "Receive events, interactions and slash commands over a WebSocket opened by the app instead of public Request URLs. Requires a Slack App-Level Token; the Signing Secret is then not needed.",
+      type: "boolean",
+      default: false,
+      required: false,
+    },
+    slackAppToken: {
+      name: "Slack App-Level Token (xapp-)",
+      description:
+        "An App-Level Token with the 'connections:write' scope (starts with 'xapp-'). Only used with Socket Mode.",
+      type: "string",
+      sensitive: true,
+      required: false,
+    },
+    slackClientId: {
+      name: "Slack Client ID",
+      description:
+        "The Client ID of a distributable Slack app. Together with the Client Secret, enables the 'Add to Slack' OAuth flow for installing into multiple workspaces instead of using a single Bot Token.",
+      type: "string",
+      required: false,
+    },
+    slackClientSecret: {
+      name: "Slack Client Secret",
+      description:
+        "The Client Secret of your Slack app, used to exchange OAuth codes for bot tokens.",
+      type: "string",
+      sensitive: true,
+      required: false,
+    },
+    slackAppId: {
+      name: "Slack App ID",
+      description:
+        "The ID of your Slack app (e.g., A0123ABC). Used with the App Configuration Token to keep the app's manifest in sync.",
+      type: "string",
+      required: false,
+    },
+    slackAppConfigToken: {
+      name: "Slack App Configuration Token (xoxe.xoxp-)",
+      description:
+        "Optional. An app configuration token, generated under 'Your App Configuration Tokens' on api.slack.com/apps. When set together with the App ID, manifest changes (scopes, events, slash commands, shortcuts) are applied with apps.manifest.update on sync. Configuration tokens expire after 12 hours.",
+      type: "string",
+      sensitive: true,
+      required: false,
+    },
+    slackAppConfigRefreshToken: {
+      name: "Slack App Configuration Refresh Token (xoxe-)",
+      description:
+        "Optional. The refresh token generated together with the app configuration token. When set, the configuration token is rotated automatically with tooling.tokens.rotate, so manifest updates keep working after 12 hours; the App Configuration Token field is then optional.",
+      type: "string",
+      sensitive: true,
+      required: false,
+    },
+    slackApiBaseUrl: {
+      name: "Slack API Base URL",
+      description:
+        "Base URL for all Slack Web API calls. Defaults to https://slack.com/api. Override it to point the app at a local Slack stand-in, GovSlack (https://slack-gov.com/api) or an enterprise proxy.",
+      type: "string",
+      required: false,
+    },
+    narrowScopesToBlocksInUse: {
+      name: "Narrow Scopes to Blocks in Use",
+      description:
+        "Only request the scopes and bot events of the block types currently used in flows, instead of the full default set. Adding a block of a new type then needs additional scopes, so the app must be reinstalled (the status and 'Scope Audit' signal show what is missing).",
+      type: "boolean",
+      default: false,
+      required: false,
+    },
   },
 
   signals: {
@@ -76,37 +341,115 @@ export const app = defineApp({
       name: "User ID",
       description: "The ID of the bot user in Slack.",
     },
+    eventDelivery: {
+      name: "Event Delivery",
+      description:
+        "Events API retry diagnostics as of the last sync: retries received from Slack (by X-Slack-Retry-Reason) and duplicate deliveries dropped.",
+    },
+    signingSecretUsage: {
+      name: "Signing Secret Usage",
+      description:
+        "When requests last matched the primary and the secondary signing secret, as of the last sync. Once the secondary is no longer matched, it can be removed.",
+    },
+    scopeAudit: {
+      name: "Scope Audit",
+      description:
+        "The bot token's granted OAuth scopes as of the last sync, and any scopes missing for the app's blocks, with the blocks that need them.",
+    },
+    workspaces: {
+      name: "Workspaces",
+      description:
+        "The workspaces the app has been installed into through the OAuth flow.",
+    },
+    installUrl: {
+      name: "Install URL",
+      description:
+        "The 'Add to Slack' link for installing the app into another workspace. Each visit starts a new installation attempt.",
+    },
   },
 
   async onSync(input) {
-    const { slackBotToken, slackSigningSecret } = input.app.config;
+    const {
+      slackBotToken,
+      slackRefreshToken,
+      slackSigningSecret,
+      slackApiBaseUrl,
+      useSocketMode,
+      slackAppToken,
+      slackClientId,
+      slackClientSecret,
+      narrowScopesToBlocksInUse,
+    } = input.app.config;
     const promptExists = slackAppCreationPromptKey in input.app.prompts;
 
-    if (slackBotToken && slackSigningSecret) {
+    // Rebuild event routing from scratch after any app (re)configuration.
+    await invalidateSubscriptionRoutingIndex();
+
+    // Scopes, events and manifest features include those of the blocks in use.
+    const blockTypeIds = await listBlockTypeIdsInUse();
+
+    // Socket Mode replaces signed HTTP requests with an app-level token.
+    const inboundCredential = useSocketMode
+      ? slackAppToken
+      : slackSigningSecret;
+
+    if ((slackBotToken || slackRefreshToken) && inboundCredential) {
       try {
-        const response = await fetch("https://slack.com/api/auth.test", {
-          method: "POST", // auth.test is a GET, but can be called as POST with token in header
-          headers: {
-            Authorization: `Bearer ${slackBotToken}`,
-            "Content-Type": "application/json",
+        // Renews the bot token first when token rotation is configured.
+        const { token } = await resolveSlackAuth(input.app.config);
+        const response = await fetch(
+          getSlackApiUrl("auth.test", slackApiBaseUrl),
+          {
+            method: "POST", // auth.test is a GET, but can be called as POST with token in header
+            headers: {
+              Authorization: `Bearer ${token}`,
+              "Content-Type": "application/json",
+            },
           },
-        });
+        );
         const data = await response.json();
         if (data.ok) {
-          if (promptExists) {
-            try {
-              await lifecycle.prompt.delete(slackAppCreationPromptKey);
-            } catch (e: any) {
-              console.warn(
-                `Failed to delete old prompt ${slackAppCreationPromptKey}: ${e.message}`,
-              );
-            }
+          if (!(await syncSocketMode(input.app.config))) {
+            return {
+              newStatus: "failed",
+              customStatusDescription: "Socket Mode connection failed.",
+            };
           }
+
+          await deletePromptIfExists(
+            input.app.prompts,
+            slackAppCreationPromptKey,
+          );
+          await deletePromptIfExists(
+            input.app.prompts,
+            slackOAuthInstallPromptKey,
+          );
+
+          // Slack lists the token's granted scopes in a response header.
+          const scopeAudit = auditScopes(
+            (response.headers.get("x-oauth-scopes") || "")
+              .split(",")
+              .map((scope) => scope.trim())
+              .filter(Boolean),
+            blockTypeIds,
+          );
+          const manifestNote = await syncManifest(
+            input.app.config,
+            input.app.http.url,
+            blockTypeIds,
+          );
           return {
             newStatus: "ready",
+            customStatusDescription:
+              [manifestNote, describeMissingScopes(scopeAudit)]
+                .filter(Boolean)
+                .join(" | ") || undefined,
             signalUpdates: {
               botId: data.bot_id,
               userId: data.user_id,
+              eventDelivery: await getEventDeliveryStats(),
+              signingSecretUsage: await getSigningSecretUsage(),
+              scopeAudit,
             },
           };
         } else {
@@ -125,74 +468,86 @@ export const app = defineApp({
           customStatusDescription: "Auth test error.",
         };
       }
-    } else {
-      const eventsUrl = `${input.app.http.url}/events`;
-      const interactivityUrl = `${input.app.http.url}/interactivity`;
+    } else if (slackClientId && slackClientSecret && inboundCredential) {
+      // OAuth mode: bot tokens come from per-workspace installations.
+      await deletePromptIfExists(input.app.prompts, slackAppCreationPromptKey);
 
-      const slackManifest = {
-        _metadata: {
-          major_version: 1,
-          minor_version: 2,
-        },
-        display_information: {
-          name: "Spacelift Flows Integration",
-          description: "Integration with Spacelift Flows for Slack",
-          background_color: "#2E2D2D",
-        },
-        features: {
-          bot_user: {
-            display_name: "Spacelift Flows Bot",
-            always_online: false,
-          },
-          app_home: {
-            home_tab_enabled: false,
-            messages_tab_enabled: true,
-            messages_tab_read_only_enabled: true,
-          },
-        },
-        oauth_config: {
-          scopes: {
-            bot: [
-              "app_mentions:read",
-              "chat:write",
-              "chat:write.public", // For ephemeral messages in public channels
-              "channels:history", // For message subscriptions in public channels
-              "groups:history", // For message subscriptions in private channels
-              "im:history", // For message subscriptions in DMs
-              "mpim:history", // For message subscriptions in multi-person DMs
-              "reactions:write", // For adding/removing reactions
-              "reactions:read", // For getting reactions and reaction subscriptions
-              "usergroups:write", // For updating user group membership
-              "usergroups:read", // For listing user group users
-              "channels:manage", // For creating, archiving, managing public channels
-              "groups:write", // For managing private channels
-              "channels:read", // For getting public channel info
-              "groups:read", // For getting private channel info
-              "users:read", // For getting user info
-            ],
-          },
-        },
-        settings: {
-          event_subscriptions: {
-            request_url: eventsUrl,
-            bot_events: [
-              "app_mention",
-              "reaction_added",
-              "reaction_removed",
-              "message.channels",
-              "message.groups",
-              "message.im",
-              "message.mpim",
-            ],
-          },
-          interactivity: {
-            is_enabled: true,
-            request_url: interactivityUrl,
-          },
-          org_deploy_enabled: false,
-          socket_mode_enabled: false,
+      const installUrl = getInstallUrl(input.app.http.url);
+      const installations = await listInstallations();
+
+      if (installations.length === 0) {
+        if (!(slackOAuthInstallPromptKey in input.app.prompts)) {
+          await lifecycle.prompt.create(
+            slackOAuthInstallPromptKey,
+            `Click "**Add to Slack**" below to install the app into a Slack workspace. Make sure \`${getOAuthRedirectUrl(input.app.http.url)}\` is listed as a Redirect URL under "OAuth & Permissions" in your Slack app settings.`,
+            {
+              redirect: {
+                url: installUrl,
+                method: "GET",
+              },
+            },
+          );
+        }
+        return {
+          newStatus: "in_progress",
+          customStatusDescription: "Waiting for a workspace installation.",
+        };
+      }
+
+      await deletePromptIfExists(input.app.prompts, slackOAuthInstallPromptKey);
+
+      if (!(await syncSocketMode(input.app.config))) {
+        return {
+          newStatus: "failed",
+          customStatusDescription: "Socket Mode connection failed.",
+        };
+      }
+
+      // Each workspace may have granted a different set of scopes.
+      const missingScopes = installations
+        .map((installation) => {
+          const description = describeMissingScopes(
+            auditScopes(installation.scopes, blockTypeIds),
+          );
+          return description && `${installation.teamId}: ${description}`;
+        })
+        .filter(Boolean);
+      const manifestNote = await syncManifest(
+        input.app.config,
+        input.app.http.url,
+        blockTypeIds,
+      );
+
+      const latestInstallation = installations[installations.length - 1];
+      return {
+        newStatus: "ready",
+        customStatusDescription:
+          [manifestNote, ...missingScopes].filter(Boolean).join(" | ") ||
+          undefined,
+        signalUpdates: {
+          botId: latestInstallation.botId,
+          userId: latestInstallation.botUserId,
+          eventDelivery: await getEventDeliveryStats(),
+          signingSecretUsage: await getSigningSecretUsage(),
+          workspaces: installations.map((installation) => ({
+            team_id: installation.teamId,
+            team_name: installation.teamName,
+            enterprise_id: installation.enterpriseId,
+            bot_user_id: installation.botUserId,
+            installed_at: installation.installedAt,
+            missing_scopes: auditScopes(installation.scopes, blockTypeIds)
+              .missing,
+          })),
+          installUrl,
         },
       };
+    } else {
+      const slackManifest = await buildSlackManifest(
+        input.app.http.url,
+        !!useSocketMode,
+        blockTypeIds,
+        !!narrowScopesToBlocksInUse,
+      );
 
       const manifestJsonString = JSON.stringify(slackManifest);
       const encodedManifest = encodeURIComponent(manifestJsonString);
@@ -204,8 +559,13 @@ To complete the Slack app setup:
 2.  Review the manifest and click "**Next**", then "**Create**".
 3.  **Install App**: On the next page, click "**Install to Workspace**" and authorize.
 4.  **Get Bot Token**: Navigate to "OAuth & Permissions" (under Features in the sidebar). Copy the "**Bot User OAuth Token**" (it starts with \`xoxb-\`).
-5.  **Get Signing Secret**: Navigate to "Basic Information" (under Settings in the sidebar). Scroll down to "App Credentials" and copy the "**Signing Secret**".
-6.  **Update Configuration**: Paste the "Bot User OAuth Token" and "Signing Secret" into this Spacelift App's configuration fields and save.
+${
+  useSocketMode
+    ? `5.  **Get App-Level Token**: Navigate to "Basic Information" (under Settings in the sidebar). Under "App-Level Tokens", click "**Generate Token and Scopes**", add the \`connections:write\` scope and copy the generated token (it starts with \`xapp-\`).
+6.  **Update Configuration**: Paste the "Bot User OAuth Token" and the "App-Level Token" into this Spacelift App's configuration fields and save.`
+    : `5.  **Get Signing Secret**: Navigate to "Basic Information" (under Settings in the sidebar). Scroll down to "App Credentials" and copy the "**Signing Secret**".
+6.  **Update Configuration**: Paste the "Bot User OAuth Token" and "Signing Secret" into this Spacelift App's configuration fields and save.`
+}
 `;
       if (!promptExists) {
         await lifecycle.prompt.create(
@@ -225,11 +585,69 @@ To complete the Slack app setup:
       };
     }
   },
+  async onTimer({ app, timer }) {
+    const { socketModeHealthCheckId } = timer.payload;
+    const { value: currentHealthCheckId } = await kv.app.get(
+      socketModeHealthCheckKey,
+    );
+    if (
+      !app.config.useSocketMode ||
+      socketModeHealthCheckId !== currentHealthCheckId
+    ) {
+      return;
+    }
+
+    await scheduleSocketModeHealthCheck(socketModeHealthCheckId);
+    await openSocketMode(app.config);
+  },
   http: {
     async onRequest(input) {
-      const { slackSigningSecret } = input.app.config;
+      const receivedAt = Date.now();
+      const { slackSigningSecret, slackSigningSecretSecondary } =
+        input.app.config;
       const requestPath = input.request.path;
 
+      // The install link and the OAuth redirect are browser GETs from the
+      // installing user, so they aren't signed by Slack. The per-attempt
+      // state nonce protects the redirect instead.
+      if (requestPath.endsWith(oauthInstallPath)) {
+        const { location, cookie } = await startOAuthInstall(
+          input.app.config,
+          input.app.http.url,
+          getRequiredBotScopes(
+            await getSyncedBlockTypeIds(),
+            !!input.app.config.narrowScopesToBlocksInUse,
+          ),
+        );
+        await http.respond(input.request.requestId, {
+          statusCode: 302,
+          headers: { Location: location, "Set-Cookie": cookie },
+        });
+        return;
+      }
+      if (requestPath.endsWith(oauthCallbackPath)) {
+        try {
+          const installation = await handleOAuthCallback(
+            input.request.query || {},
+            input.request.headers || {},
+            input.app.config,
+            input.app.http.url,
+          );
+          await http.respond(input.request.requestId, {
+            statusCode: 200,
+            body: `The app has been installed to ${installation.teamName || installation.teamId}. You can close this window.`,
+          });
+          await lifecycle.sync();
+        } catch (error: any) {
+          console.error(`Slack OAuth installation failed: ${error.message}`);
+          await http.respond(input.request.requestId, {
+            statusCode: 400,
+            body: `Slack installation failed: ${error.message}`,
+          });
+        }
+        return;
+      }
+
       if (!slackSigningSecret) {
         console.error(
           "Slack app not configured with Signing Secret. Cannot verify webhook.",
@@ -241,11 +659,12 @@ To complete the Slack app setup:
         return;
       }
 
-      const isValid = await verifySlackRequest(
+      const matchedSecret = await verifySlackRequestWithSecrets(
         input.request,
         slackSigningSecret,
+        slackSigningSecretSecondary,
       );
-      if (!isValid) {
+      if (!matchedSecret) {
         console.warn(
           "Invalid Slack signature for request:",
           input.request.requestId,
@@ -261,7 +680,23 @@ To complete the Slack app setup:
 
       // Route based on path
       if (requestPath === "/events" || requestPath.endsWith("/events")) {
-        const response = await handleEventsEndpoint(input.request.body);
+        // Acknowledge first, then route the event to its subscribers.
+        const { deferred, ...response } = await handleEventsEndpoint(
+          input.request.body,
+          input.request.headers,
+          input.app.config,
+        );
+        await http.respond(input.request.requestId, response);
+        await deferred?.();
+      } else if (
+        requestPath === "/commands" ||
+        requestPath.endsWith("/commands")
+      ) {
+        // Slash command payloads are form-encoded fields, not a JSON string.
+        const response = await handleCommandsEndpoint(
+          input.request.body,
+          input.app.config,
+        );
         await http.respond(input.request.requestId, response);
       } else if (
         requestPath === "/interactivity" ||
@@ -269,7 +704,11 @@ To complete the Slack app setup:
       ) {
         // Interactivity event payloads are json-serialized strings.
         const payload = JSON.parse(input.request.body.payload);
-        const response = await handleInteractivityEndpoint(payload);
+        const response = await handleInteractivityEndpoint(
+          payload,
+          input.app.config,
+          receivedAt,
+        );
         await http.respond(input.request.requestId, response);
       } else {
         console.warn("Received request on unhandled HTTP path:", requestPath);
@@ -280,7 +719,7 @@ To complete the Slack app setup:
       }
     },
   },
-  blocks: {
+  blocks: withManifestSync({
     // Auth
     authMetadata: authMetadata,
 
@@ -291,8 +730,13 @@ To complete the Slack app setup:
     updateMessageBlocks: updateMessageBlocks,
     deleteMessage: deleteMessage,
     sendMessageWithInteractions: sendMessageWithInteractions,
+    sendResponse: sendResponse,
+    approval,
+    optionsProvider: optionsProvider,
     messagesSubscription: messagesSubscription,
     appMentionSubscription: appMentionSubscription,
+    slashCommandSubscription: slashCommandSubscription,
+    shortcutSubscription: shortcutSubscription,
 
     // Reactions
     addReaction: addReaction,
@@ -319,10 +763,16 @@ To complete the Slack app setup:
 
     // Views
     openViewWithInteractions,
+    updateView,
+    pushView,
+    respondToViewSubmission,
 
     // Conversations
     conversation,
     botThread,
     getThread,
-  },
+
+    // Diagnostics
+    deadLetters,
+  }),
 });
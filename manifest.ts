@@ -0,0 +1,480 @@
+import { blocks, kv, lifecycle } from "@slflows/sdk/v1";
+
+import * as nodecrypto from "node:crypto";
+import { getOAuthRedirectUrl } from "./oauth.ts";
+import { callSlackApi } from "./slackClient.ts";
+import { normalizeSlashCommand } from "./blocks/subscriptions.ts";
+import { withKvLock } from "./kvLock.ts";
+
+// Scopes and bot events the manifest always declares, so blocks added after
+// the app was installed work without a reinstall.
+const baselineBotScopes = [
+  "app_mentions:read",
+  "chat:write",
+  "chat:write.public", // For ephemeral messages in public channels
+  "channels:history", // For message subscriptions in public channels
+  "groups:history", // For message subscriptions in private channels
+  "im:history", // For message subscriptions in DMs
+  "mpim:history", // For message subscriptions in multi-person DMs
+  "reactions:write", // For adding/removing reactions
+  "reactions:read", // For getting reactions and reaction subscriptions
+  "usergroups:write", // For updating user group membership
+  "usergroups:read", // For listing user group users
+  "channels:manage", // For creating, archiving, managing public channels
+  "groups:write", // For managing private channels
+  "channels:read", // For getting public channel info
+  "groups:read", // For getting private channel info
+  "users:read", // For getting user info
+];
+
+const baselineBotEvents = [
+  "app_mention",
+  "reaction_added",
+  "reaction_removed",
+  "message.channels",
+  "message.groups",
+  "message.im",
+  "message.mpim",
+];
+
+// With narrowing, the manifest starts from this instead. Slack requires at
+// least one bot scope to install an app with a bot user.
+const narrowedBaseBotScopes = ["chat:write"];
+
+// Bot token scopes each block needs. The manifest requests them on top of
+// the baseline, and they're checked against the granted scopes on sync so
+// a missing scope shows up before a flow fails with `missing_scope`.
+export const blockRequiredScopes: Record<string, string[]> = {
+  authMetadata: [],
+  sendTextMessage: ["chat:write"],
+  sendMessageBlocks: ["chat:write"],
+  sendEphemeralMessageBlocks: ["chat:write", "chat:write.public"],
+  updateMessageBlocks: ["chat:write"],
+  deleteMessage: ["chat:write"],
+  sendMessageWithInteractions: ["chat:write"],
+  sendResponse: [],
+  approval: ["chat:write", "usergroups:read"],
+  optionsProvider: [],
+  messagesSubscription: [
+    "channels:history",
+    "groups:history",
+    "im:history",
+    "mpim:history",
+  ],
+  appMentionSubscription: ["app_mentions:read"],
+  slashCommandSubscription: ["commands"],
+  shortcutSubscription: ["commands"],
+  addReaction: ["reactions:write"],
+  removeReaction: ["reactions:write"],
+  getReactions: ["reactions:read"],
+  reactionsSubscription: ["reactions:read"],
+  updateUserGroupUsers: ["usergroups:write"],
+  listUserGroupUsers: ["usergroups:read"],
+  getUserInfo: ["users:read"],
+  createChannel: ["channels:manage", "groups:write"],
+  archiveChannel: ["channels:manage", "groups:write"],
+  unarchiveChannel: ["channels:manage", "groups:write"],
+  getChannelInfo: ["channels:read", "groups:read"],
+  setChannelTopic: ["channels:manage", "groups:write"],
+  setChannelPurpose: ["channels:manage", "groups:write"],
+  inviteUsersToChannel: ["channels:manage", "groups:write"],
+  kickUsersFromChannel: ["channels:manage", "groups:write"],
+  openViewWithInteractions: [],
+  updateView: [],
+  pushView: [],
+  respondToViewSubmission: [],
+  conversation: [
+    "app_mentions:read",
+    "channels:history",
+    "groups:history",
+    "im:history",
+    "mpim:history",
+    "chat:write",
+  ],
+  botThread: [
+    "channels:history",
+    "groups:history",
+    "im:history",
+    "mpim:history",
+    "chat:write",
+  ],
+  getThread: [
+    "channels:history",
+    "groups:history",
+    "im:history",
+    "mpim:history",
+  ],
+  deadLetters: [],
+};
+
+// Bot events each block subscribes to, declared in the manifest on top of
+// the baseline.
+const messageBotEvents = [
+  "message.channels",
+  "message.groups",
+  "message.im",
+  "message.mpim",
+];
+
+const blockBotEvents: Record<string, string[]> = {
+  appMentionSubscription: ["app_mention"],
+  reactionsSubscription: ["reaction_added", "reaction_removed"],
+  messagesSubscription: messageBotEvents,
+  conversation: ["app_mention", ...messageBotEvents],
+  botThread: messageBotEvents,
+};
+
+const syncedBlockTypeIdsKey = "manifest:blockTypeIds";
+const syncedBlockConfigKey = "manifest:blockConfig";
+
+// Blocks whose config is declared in the manifest (slash commands, shortcuts).
+const manifestConfigBlockTypeIds = [
+  "slashCommandSubscription",
+  "shortcutSubscription",
+];
+
+// Returns the block types that have at least one block in a flow, and
+// remembers them for syncAppOnBlockChange.
+export async function listBlockTypeIdsInUse(): Promise<string[]> {
+  const blockTypeIds = Object.keys(blockRequiredScopes);
+  const blockLists = await Promise.all(
+    blockTypeIds.map((typeId) => blocks.list({ typeIds: [typeId] })),
+  );
+  const inUse = blockTypeIds.filter((_, i) => blockLists[i].blocks.length > 0);
+  await kv.app.set({ key: syncedBlockTypeIdsKey, value: inUse });
+  return inUse;
+}
+
+// The block types in use as of the last app sync.
+export async function getSyncedBlockTypeIds(): Promise<string[]> {
+  const { value } = await kv.app.get(syncedBlockTypeIdsKey);
+  return (value as string[]) || [];
+}
+
+// Called when a block is synced. The manifest, install URL and scope audit
+// are built on app sync, so the app is synced again when the block is of a
+// type the last app sync didn't see, or declares its config in the manifest
+// and that config changed.
+export async function syncAppOnBlockChange(
+  blockTypeId: string,
+  blockConfig: Record<string, any>,
+) {
+  const { value: syncedBlockTypeIds } = await kv.app.get(syncedBlockTypeIdsKey);
+  let changed = !((syncedBlockTypeIds as string[]) || []).includes(blockTypeId);
+
+  if (manifestConfigBlockTypeIds.includes(blockTypeId)) {
+    const blockConfigJson = JSON.stringify(blockConfig);
+    const { value: syncedBlockConfig } =
+      await kv.block.get(syncedBlockConfigKey);
+    if (syncedBlockConfig !== blockConfigJson) {
+      await kv.block.set({ key: syncedBlockConfigKey, value: blockConfigJson });
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    await lifecycle.sync();
+  }
+}
+
+// The baseline plus the scopes of the blocks in use. With narrowing, only
+// the scopes of the blocks in use.
+export function getRequiredBotScopes(
+  blockTypeIds: string[],
+  narrowToBlocksInUse = false,
+): string[] {
+  return [
+    ...new Set([
+      ...(narrowToBlocksInUse ? narrowedBaseBotScopes : baselineBotScopes),
+      ...blockTypeIds.flatMap((id) => blockRequiredScopes[id] || []),
+    ]),
+  ];
+}
+
+function getBotEvents(
+  blockTypeIds: string[],
+  narrowToBlocksInUse: boolean,
+): string[] {
+  return [
+    ...new Set([
+      ...(narrowToBlocksInUse ? [] : baselineBotEvents),
+      ...blockTypeIds.flatMap((id) => blockBotEvents[id] || []),
+    ]),
+  ];
+}
+
+// Builds the Slack app manifest: the baseline scopes and bot events plus
+// those of the blocks in use, and the slash commands and shortcuts
+// configured on subscription blocks. The App Home settings are only used for
+// new apps; existing apps keep theirs (see mergeSlackManifest).
+export async function buildSlackManifest(
+  httpUrl: string,
+  useSocketMode: boolean,
+  blockTypeIds: string[],
+  narrowToBlocksInUse = false,
+) {
+  const eventsUrl = `${httpUrl}/events`;
+  const interactivityUrl = `${httpUrl}/interactivity`;
+  const commandsUrl = `${httpUrl}/commands`;
+
+  // Declare every command configured on a slash command subscription block.
+  const commandBlocks = await blocks.list({
+    typeIds: ["slashCommandSubscription"],
+  });
+  const slashCommands = commandBlocks.blocks
+    .filter((block) => block.config.command)
+    .map((block) => ({
+      command: normalizeSlashCommand(block.config.command),
+      ...(!useSocketMode && { url: commandsUrl }),
+      description: block.config.description || "Spacelift Flows command",
+      should_escape: false,
+    }));
+
+  // Declare every shortcut configured on a shortcut subscription block.
+  const shortcutBlocks = await blocks.list({
+    typeIds: ["shortcutSubscription"],
+  });
+  const shortcuts = shortcutBlocks.blocks
+    .filter((block) => block.config.callbackId)
+    .map((block) => ({
+      name: block.config.name || block.config.callbackId,
+      type: block.config.shortcutType || "global",
+      callback_id: block.config.callbackId,
+      description: block.config.description || "Spacelift Flows shortcut",
+    }));
+
+  const botEvents = getBotEvents(blockTypeIds, narrowToBlocksInUse);
+
+  return {
+    _metadata: {
+      major_version: 1,
+      minor_version: 2,
+    },
+    display_information: {
+      name: "Spacelift Flows Integration",
+      description: "Integration with Spacelift Flows for Slack",
+      background_color: "#2E2D2D",
+    },
+    features: {
+      bot_user: {
+        display_name: "Spacelift Flows Bot",
+        always_online: false,
+      },
+      app_home: {
+        home_tab_enabled: false,
+        messages_tab_enabled: true,
+        messages_tab_read_only_enabled: true,
+      },
+      ...(slashCommands.length > 0 && { slash_commands: slashCommands }),
+      ...(shortcuts.length > 0 && { shortcuts }),
+    },
+    oauth_config: {
+      redirect_urls: [getOAuthRedirectUrl(httpUrl)],
+      scopes: {
+        bot: getRequiredBotScopes(blockTypeIds, narrowToBlocksInUse),
+      },
+    },
+    settings: {
+      ...(botEvents.length > 0 && {
+        event_subscriptions: {
+          ...(!useSocketMode && { request_url: eventsUrl }),
+          bot_events: botEvents,
+        },
+      }),
+      interactivity: {
+        is_enabled: true,
+        ...(!useSocketMode && {
+          request_url: interactivityUrl,
+          message_menu_options_url: interactivityUrl,
+        }),
+      },
+      org_deploy_enabled: false,
+      socket_mode_enabled: useSocketMode,
+    },
+  };
+}
+
+const appliedManifestKey = "manifest:appliedHash";
+const appConfigTokenKey = "manifest:appConfigToken";
+
+// Rotate this long before the configuration token expires.
+const appConfigTokenRefreshMarginMs = 5 * 60 * 1000;
+
+interface AppConfigToken {
+  token: string;
+  refreshToken: string;
+  /** Epoch milliseconds after which token is no longer valid. */
+  expiresAt: number;
+  /** The configured refresh token this entry was seeded from. */
+  seedRefreshToken: string;
+}
+
+// App configuration tokens expire after 12 hours. With a configuration
+// refresh token, they are rotated through tooling.tokens.rotate and the
+// current pair is kept in keyvalue. Without one, the configured token is
+// used as is.
+async function getAppConfigToken(config: Record<string, any>): Promise<string> {
+  const { slackAppConfigToken, slackAppConfigRefreshToken, slackApiBaseUrl } =
+    config;
+  if (!slackAppConfigRefreshToken) {
+    return slackAppConfigToken;
+  }
+
+  return withKvLock(kv.app, appConfigTokenKey, async () => {
+    const { value } = await kv.app.get(appConfigTokenKey);
+    const stored = value as AppConfigToken | undefined;
+    // A changed refresh token in the config starts over from it.
+    const current =
+      stored?.seedRefreshToken === slackAppConfigRefreshToken
+        ? stored
+        : undefined;
+    if (
+      current &&
+      current.expiresAt - appConfigTokenRefreshMarginMs > Date.now()
+    ) {
+      return current.token;
+    }
+
+    console.log("Rotating the Slack app configuration token.");
+    const data = await callSlackApi(
+      "tooling.tokens.rotate",
+      { refresh_token: current?.refreshToken || slackAppConfigRefreshToken },
+      { token: "", baseUrl: slackApiBaseUrl },
+      "form",
+    );
+    const rotated: AppConfigToken = {
+      token: data.token,
+      refreshToken: data.refresh_token,
+      expiresAt: data.exp * 1000,
+      seedRefreshToken: slackAppConfigRefreshToken,
+    };
+    await kv.app.set({ key: appConfigTokenKey, value: rotated });
+    return rotated.token;
+  });
+}
+
+// Takes the scopes, bot events, slash commands, shortcuts and request URLs
+// from the generated manifest and keeps everything else (name, display
+// information, App Home, user scopes and events) from the existing app.
+function mergeSlackManifest(
+  current: Record<string, any>,
+  generated: Record<string, any>,
+): Record<string, any> {
+  // In Socket Mode, the generated manifest has no request URL, and a stale
+  // one from the existing app must not be kept.
+  const { request_url: _requestUrl, ...currentEventSubscriptions } =
+    current.settings?.event_subscriptions || {};
+  return {
+    ...current,
+    features: {
+      ...current.features,
+      slash_commands: generated.features.slash_commands,
+      shortcuts: generated.features.shortcuts,
+    },
+    oauth_config: {
+      ...current.oauth_config,
+      redirect_urls: [
+        ...new Set([
+          ...(current.oauth_config?.redirect_urls || []),
+          ...generated.oauth_config.redirect_urls,
+        ]),
+      ],
+      scopes: {
+        ...current.oauth_config?.scopes,
+        bot: generated.oauth_config.scopes.bot,
+      },
+    },
+    settings: {
+      ...current.settings,
+      event_subscriptions: {
+        ...currentEventSubscriptions,
+        ...generated.settings.event_subscriptions,
+      },
+      interactivity: generated.settings.interactivity,
+      socket_mode_enabled: generated.settings.socket_mode_enabled,
+    },
+  };
+}
+
+// Applies the generated manifest to an existing Slack app with an app
+// configuration token, instead of sending the user through the create-app
+// prompt again. The app's current manifest is exported and only the parts
+// the blocks depend on are replaced. Unchanged manifests are skipped.
+// Returns whether Slack changed the app's scopes, in which case the app has
+// to be reinstalled.
+export async function applySlackManifest(
+  config: Record<string, any>,
+  manifest: Record<string, any>,
+): Promise<{ updated: boolean; permissionsUpdated: boolean }> {
+  const { slackAppId, slackApiBaseUrl } = config;
+  const manifestHash = nodecrypto
+    .createHash("sha256")
+    .update(`${slackAppId}:${JSON.stringify(manifest)}`)
+    .digest("hex");
+
+  const { value: appliedHash } = await kv.app.get(appliedManifestKey);
+  if (appliedHash === manifestHash) {
+    return { updated: false, permissionsUpdated: false };
+  }
+
+  const auth = {
+    token: await getAppConfigToken(config),
+    baseUrl: slackApiBaseUrl,
+  };
+  const { manifest: currentManifest } = await callSlackApi(
+    "apps.manifest.export",
+    { app_id: slackAppId },
+    auth,
+  );
+  const payload = {
+    app_id: slackAppId,
+    manifest: JSON.stringify(mergeSlackManifest(currentManifest, manifest)),
+  };
+
+  await callSlackApi("apps.manifest.validate", payload, auth);
+  const data = await callSlackApi("apps.manifest.update", payload, auth);
+
+  await kv.app.set({ key: appliedManifestKey, value: manifestHash });
+  return { updated: true, permissionsUpdated: !!data.permissions_updated };
+}
+
+export interface ScopeAudit {
+  granted: string[];
+  missing: { scope: string; blocks: string[] }[];
+}
+
+// Compares granted scopes (e.g. from the `x-oauth-scopes` header) against
+// the scopes required by the given block types.
+export function auditScopes(
+  grantedScopes: string[],
+  blockTypeIds: string[],
+): ScopeAudit {
+  const missingByScope: Record<string, string[]> = {};
+
+  for (const blockTypeId of blockTypeIds) {
+    for (const scope of blockRequiredScopes[blockTypeId] || []) {
+      if (!grantedScopes.includes(scope)) {
+        (missingByScope[scope] ??= []).push(blockTypeId);
+      }
+    }
+  }
+
+  return {
+    granted: grantedScopes,
+    missing: Object.entries(missingByScope).map(([scope, blocks]) => ({
+      scope,
+      blocks,
+    })),
+  };
+}
+
+// e.g. "Missing scopes: reactions:read (getReactions, reactionsSubscription)"
+export function describeMissingScopes(audit: ScopeAudit): string | undefined {
+  if (audit.missing.length === 0) {
+    return undefined;
+  }
+
+  return `Missing scopes: ${audit.missing
+    .map(({ scope, blocks }) => `${scope} (${blocks.join(", ")})`)
+    .join("; ")}`;
+}
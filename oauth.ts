@@ -0,0 +1,218 @@
+import { kv } from "@slflows/sdk/v1";
+
+import * as nodecrypto from "node:crypto";
+import { callSlackApi, defaultSlackApiBaseUrl } from "./slackClient.ts";
+import { saveRotatingToken } from "./tokenRotation.ts";
+
+// OAuth v2 "Add to Slack" flow, used to install one Flows app into several
+// workspaces. See https://api.slack.com/authentication/oauth-v2
+
+export const oauthInstallPath = "/oauth/install";
+export const oauthCallbackPath = "/oauth/callback";
+
+// How long an install attempt may take from the install path to the callback.
+const oauthStateTtlSeconds = 10 * 60;
+
+const installationIndexKey = "installations";
+const installationKey = (teamId: string) => `installation:${teamId}`;
+
+export interface SlackInstallation {
+  teamId: string;
+  teamName?: string;
+  enterpriseId?: string;
+  appId: string;
+  botToken: string;
+  botUserId: string;
+  botId?: string;
+  scopes: string[];
+  installedByUserId?: string;
+  installedAt: number;
+}
+
+export function getOAuthRedirectUrl(httpUrl: string): string {
+  return `${httpUrl}${oauthCallbackPath}`;
+}
+
+// Each visit to the install path starts a new install attempt with its own
+// state nonce. The nonce is kept in keyvalue and in a cookie on the
+// installing browser, and the callback accepts it once, from that browser.
+const oauthStateCookie = "slack_oauth_state";
+const oauthStateKey = (nonce: string) => `oauthState:${nonce}`;
+
+export function getInstallUrl(httpUrl: string): string {
+  return `${httpUrl}${oauthInstallPath}`;
+}
+
+// Slack's OAuth pages live on the same host as its Web API.
+function getAuthorizeUrl(slackApiBaseUrl?: string): string {
+  return `${new URL(slackApiBaseUrl || defaultSlackApiBaseUrl).origin}/oauth/v2/authorize`;
+}
+
+// Starts an install attempt: returns the redirect to Slack's authorize page
+// and the cookie that binds the attempt to the browser.
+export async function startOAuthInstall(
+  config: Record<string, any>,
+  httpUrl: string,
+  scopes: string[],
+): Promise<{ location: string; cookie: string }> {
+  const nonce = nodecrypto.randomBytes(32).toString("hex");
+  await kv.app.set({
+    key: oauthStateKey(nonce),
+    value: true,
+    ttl: oauthStateTtlSeconds,
+  });
+
+  const params = new URLSearchParams({
+    client_id: config.slackClientId,
+    scope: scopes.join(","),
+    redirect_uri: getOAuthRedirectUrl(httpUrl),
+    state: nonce,
+  });
+  return {
+    location: `${getAuthorizeUrl(config.slackApiBaseUrl)}?${params.toString()}`,
+    cookie: `${oauthStateCookie}=${nonce}; Max-Age=${oauthStateTtlSeconds}; Path=/; HttpOnly; Secure; SameSite=Lax`,
+  };
+}
+
+function getCookie(
+  headers: Record<string, string>,
+  name: string,
+): string | undefined {
+  const cookieHeader = Object.entries(headers).find(
+    ([header]) => header.toLowerCase() === "cookie",
+  )?.[1];
+  return (cookieHeader || "")
+    .split(";")
+    .map((cookie) => cookie.trim().split("="))
+    .find(([cookieName]) => cookieName === name)?.[1];
+}
+
+// Consumes the state of an install attempt. Returns false if it is unknown,
+// expired, already used or was started in another browser.
+async function consumeOAuthState(
+  state: string | undefined,
+  headers: Record<string, string>,
+): Promise<boolean> {
+  const cookieState = getCookie(headers, oauthStateCookie);
+  if (
+    !state ||
+    !cookieState ||
+    cookieState.length !== state.length ||
+    !nodecrypto.timingSafeEqual(Buffer.from(cookieState), Buffer.from(state))
+  ) {
+    return false;
+  }
+
+  const { value } = await kv.app.get(oauthStateKey(state));
+  if (!value) {
+    return false;
+  }
+  await kv.app.delete([oauthStateKey(state)]);
+  return true;
+}
+
+// Exchanges the temporary code from the redirect for a bot token and stores
+// the installation under its team ID.
+export async function handleOAuthCallback(
+  query: Record<string, string>,
+  headers: Record<string, string>,
+  config: Record<string, any>,
+  httpUrl: string,
+): Promise<SlackInstallation> {
+  const { slackClientId, slackClientSecret, slackApiBaseUrl } = config;
+
+  if (!(await consumeOAuthState(query.state, headers))) {
+    throw new Error(
+      "Invalid or expired OAuth state. Start the installation again from the install link.",
+    );
+  }
+  if (query.error) {
+    throw new Error(`Slack installation was not completed: ${query.error}`);
+  }
+  if (!query.code) {
+    throw new Error("Missing OAuth code.");
+  }
+
+  // oauth.v2.access authenticates with the client credentials, not a token.
+  const data = await callSlackApi(
+    "oauth.v2.access",
+    {
+      client_id: slackClientId,
+      client_secret: slackClientSecret,
+      code: query.code,
+      redirect_uri: getOAuthRedirectUrl(httpUrl),
+    },
+    { token: "", baseUrl: slackApiBaseUrl },
+    "form",
+  );
+
+  const installation: SlackInstallation = {
+    teamId: data.team?.id,
+    teamName: data.team?.name,
+    enterpriseId: data.enterprise?.id,
+    appId: data.app_id,
+    botToken: data.access_token,
+    botUserId: data.bot_user_id,
+    scopes: (data.scope || "").split(",").filter(Boolean),
+    installedByUserId: data.authed_user?.id,
+    installedAt: Date.now(),
+  };
+
+  // oauth.v2.access doesn't return the bot ID, auth.test does.
+  const authData = await callSlackApi(
+    "auth.test",
+    {},
+    { token: installation.botToken, baseUrl: slackApiBaseUrl },
+  );
+  installation.botId = authData.bot_id;
+
+  // With token rotation enabled, the access token expires after 12 hours.
+  if (data.refresh_token) {
+    await saveRotatingToken(installation.teamId, {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: Date.now() + data.expires_in * 1000,
+    });
+  }
+
+  await saveInstallation(installation);
+  return installation;
+}
+
+async function saveInstallation(installation: SlackInstallation) {
+  await kv.app.set({
+    key: installationKey(installation.teamId),
+    value: installation,
+  });
+
+  const teamIds = await getInstalledTeamIds();
+  if (!teamIds.includes(installation.teamId)) {
+    await kv.app.set({
+      key: installationIndexKey,
+      value: [...teamIds, installation.teamId],
+    });
+  }
+}
+
+async function getInstalledTeamIds(): Promise<string[]> {
+  const { value } = await kv.app.get(installationIndexKey);
+  return (value as string[]) || [];
+}
+
+export async function getInstallation(
+  teamId: string,
+): Promise<SlackInstallation | undefined> {
+  const { value } = await kv.app.get(installationKey(teamId));
+  return value as SlackInstallation | undefined;
+}
+
+export async function listInstallations(): Promise<SlackInstallation[]> {
+  const installations: SlackInstallation[] = [];
+  for (const teamId of await getInstalledTeamIds()) {
+    const installation = await getInstallation(teamId);
+    if (installation) {
+      installations.push(installation);
+    }
+  }
+  return installations;
+}
@@ -0,0 +1,152 @@
+import { EventInput } from "@slflows/sdk/v1";
+
+import { getInstallation, listInstallations } from "./oauth.ts";
+import { SlackApiAuth } from "./slackClient.ts";
+import {
+  configTokenScope,
+  getRotatingAuth,
+  getRotatingToken,
+  RotatingToken,
+} from "./tokenRotation.ts";
+
+// Optional input config shared by every block that calls the Slack API.
+export const teamIdInputConfig = {
+  name: "Team ID",
+  description:
+    "The ID of the workspace (e.g., T0123ABC) to act in. Required when the app is installed in several workspaces: wire it from the 'team' (or 'team_id') field of the Slack event that triggered the flow. Only the Conversation block's responses pick up their workspace automatically.",
+  type: "string" as const,
+  required: false,
+};
+
+// Slack payloads carry the workspace as `team_id`, `team: {id}` or `team`.
+export function getEventTeamId(event: any): string | undefined {
+  if (!event) {
+    return undefined;
+  }
+  if (event.team_id) {
+    return event.team_id;
+  }
+  return typeof event.team === "string" ? event.team : event.team?.id;
+}
+
+// Whether an event was caused by this app's bot user, e.g. a message it
+// posted. In OAuth mode each workspace has its own bot user, taken from the
+// installation of the event's team.
+export async function isOwnBotUserEvent(
+  app: { config: Record<string, any>; signals: Record<string, any> },
+  event: any,
+): Promise<boolean> {
+  if (!event?.user) {
+    return false;
+  }
+  if (app.config.slackRefreshToken || app.config.slackBotToken) {
+    return event.user === app.signals.userId;
+  }
+
+  const teamId = getEventTeamId(event);
+  const installation = teamId ? await getInstallation(teamId) : undefined;
+  if (installation) {
+    return event.user === installation.botUserId;
+  }
+
+  // Without a known team, match the bot user of any workspace.
+  return (await listInstallations()).some(
+    ({ botUserId }) => botUserId === event.user,
+  );
+}
+
+// Resolves the credentials for a workspace. A configured Refresh Token or
+// Bot Token is used for every call; otherwise the token comes from the
+// workspace's OAuth installation.
+export async function resolveSlackAuth(
+  config: Record<string, any>,
+  teamId?: string,
+): Promise<SlackApiAuth> {
+  const { slackBotToken, slackRefreshToken, slackApiBaseUrl } = config;
+
+  if (slackRefreshToken) {
+    return getRotatingAuth(
+      config,
+      configTokenScope,
+      await getConfigRotatingToken(slackRefreshToken, slackBotToken),
+    );
+  }
+
+  if (slackBotToken) {
+    return { token: slackBotToken, baseUrl: slackApiBaseUrl };
+  }
+
+  if (teamId) {
+    const installation = await getInstallation(teamId);
+    if (!installation) {
+      throw new Error(`The Slack app is not installed in workspace ${teamId}.`);
+    }
+    return getInstallationAuth(
+      config,
+      installation.teamId,
+      installation.botToken,
+    );
+  }
+
+  // Without a team, fall back to the only installation if there is one.
+  const installations = await listInstallations();
+  if (installations.length === 1) {
+    return getInstallationAuth(
+      config,
+      installations[0].teamId,
+      installations[0].botToken,
+    );
+  }
+
+  throw new Error(
+    installations.length === 0
+      ? "Slack Bot Token not configured and the app is not installed in any workspace."
+      : "The Slack app is installed in several workspaces. Set the block's Team ID input, e.g. from the 'team' field of the triggering Slack event.",
+  );
+}
+
+// The stored token is seeded from the configured refresh token, and seeded
+// again whenever that config changes.
+async function getConfigRotatingToken(
+  slackRefreshToken: string,
+  slackBotToken?: string,
+): Promise<RotatingToken> {
+  const stored = await getRotatingToken(configTokenScope);
+  if (stored?.seedRefreshToken === slackRefreshToken) {
+    return stored;
+  }
+
+  // A configured access token has an unknown expiry, so it's refreshed on
+  // first use.
+  return {
+    accessToken: slackBotToken,
+    refreshToken: slackRefreshToken,
+    expiresAt: 0,
+    seedRefreshToken: slackRefreshToken,
+  };
+}
+
+// Installations made with token rotation enabled store a rotating token.
+async function getInstallationAuth(
+  config: Record<string, any>,
+  teamId: string,
+  botToken: string,
+): Promise<SlackApiAuth> {
+  const rotatingToken = await getRotatingToken(teamId);
+  if (rotatingToken) {
+    return getRotatingAuth(config, teamId, rotatingToken);
+  }
+  return { token: botToken, baseUrl: config.slackApiBaseUrl };
+}
+
+// Resolves the credentials for a block input event, from its `teamId` input
+// config or, for echo events (Conversation responses), the team of the Slack
+// event they echo. Other inputs don't see the triggering event.
+export async function resolveInputAuth(
+  input: EventInput,
+): Promise<SlackApiAuth> {
+  return resolveSlackAuth(
+    input.app.config,
+    input.event.inputConfig.teamId || getEventTeamId(input.event.echo?.body),
+  );
+}
@@ -1,30 +1,423 @@
+import { events, kv } from "@slflows/sdk/v1";
+
+import * as nodecrypto from "node:crypto";
+import { slackApiErrorSchema } from "./jsonschema/jsonschema.ts";
+
+// Slack rate limit tiers, see https://api.slack.com/apis/rate-limits
+type SlackMethodTier = 1 | 2 | 3 | 4 | "special";
+
+interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+}
+
+// Lower tiers allow fewer calls per minute, so they get fewer and longer waits.
+const tierRetryPolicies: Record<SlackMethodTier, RetryPolicy> = {
+  1: { maxRetries: 2, baseDelayMs: 10_000 },
+  2: { maxRetries: 3, baseDelayMs: 3_000 },
+  3: { maxRetries: 3, baseDelayMs: 1_000 },
+  4: { maxRetries: 4, baseDelayMs: 500 },
+  special: { maxRetries: 4, baseDelayMs: 1_000 },
+};
+
+const methodTiers: Record<string, SlackMethodTier> = {
+  "apps.connections.open": 1,
+  "apps.manifest.export": 3,
+  "apps.manifest.update": 1,
+  "apps.manifest.validate": 3,
+  "auth.test": "special",
+  "chat.delete": 3,
+  "chat.postEphemeral": 4,
+  "chat.postMessage": "special", // ~1 message per second per channel
+  "chat.update": 3,
+  "conversations.archive": 2,
+  "conversations.create": 2,
+  "conversations.info": 3,
+  "conversations.invite": 3,
+  "conversations.kick": 3,
+  "conversations.replies": 3,
+  "conversations.setPurpose": 2,
+  "conversations.setTopic": 2,
+  "conversations.unarchive": 2,
+  "oauth.v2.access": 4,
+  "reactions.add": 3,
+  "reactions.get": 3,
+  "reactions.remove": 2,
+  "tooling.tokens.rotate": 2,
+  "usergroups.users.list": 2,
+  "usergroups.users.update": 2,
+  "users.info": 4,
+  "views.open": 4,
+  "views.push": 4,
+  "views.update": 4,
+};
+
+const defaultMethodTier: SlackMethodTier = 3;
+
+// Upper bound for a single wait. If Slack asks us to wait longer than this,
+// we give up instead of blocking the calling block for minutes.
+const maxRetryDelayMs = 30_000;
+
+const transientSlackErrors = ["ratelimited", "internal_error", "fatal_error"];
+
+// Methods that must not be sent twice: Slack often applies a write before
+// failing with a server error, and a repeat would post a duplicate message or
+// fail (e.g. name_taken, already_reacted, a used trigger_id or OAuth code).
+// They are still retried when rate limited, as those requests were rejected.
+const nonIdempotentMethods = [
+  "chat.delete",
+  "chat.postEphemeral",
+  "chat.postMessage",
+  "conversations.archive",
+  "conversations.create",
+  "conversations.invite",
+  "conversations.kick",
+  "conversations.unarchive",
+  "oauth.v2.access",
+  "reactions.add",
+  "reactions.remove",
+  "tooling.tokens.rotate",
+  "views.open",
+  "views.push",
+];
+
+export const defaultSlackApiBaseUrl = "https://slack.com/api";
+
+export interface SlackApiAuth {
+  token: string;
+  /** Overrides https://slack.com/api, e.g. for a local Slack stand-in or GovSlack. */
+  baseUrl?: string;
+  /** Returns a fresh token, for rotating tokens that expired before use. */
+  refresh?: () => Promise<string>;
+}
+
+export class SlackApiError extends Error {
+  readonly method: string;
+  readonly code: string;
+  readonly statusCode: number;
+  readonly needed?: string;
+  readonly provided?: string;
+  readonly warning?: string;
+  readonly messages: string[];
+
+  constructor(method: string, statusCode: number, data: Record<string, any>) {
+    const code = data.error || "Unknown error";
+    const scopeDetails = data.needed
+      ? ` (needed: ${data.needed}, provided: ${data.provided || "none"})`
+      : "";
+    super(`Slack API error (${method}): ${code}${scopeDetails}`);
+
+    this.name = "SlackApiError";
+    this.method = method;
+    this.code = code;
+    this.statusCode = statusCode;
+    this.needed = data.needed;
+    this.provided = data.provided;
+    this.warning = data.warning;
+    // apps.manifest.* methods report validation errors in `errors` instead.
+    this.messages =
+      data.response_metadata?.messages ||
+      (data.errors || []).map((error: { message: string; pointer?: string }) =>
+        error.pointer ? `${error.pointer}: ${error.message}` : error.message,
+      );
+  }
+
+  toJSON() {
+    return {
+      method: this.method,
+      error: this.code,
+      statusCode: this.statusCode,
+      needed: this.needed,
+      provided: this.provided,
+      warning: this.warning,
+      messages: this.messages,
+    };
+  }
+}
+
+// Block config and output of every block that calls the Slack API from its
+// inputs, for use with emitSlackApiError.
+export const emitErrorsConfig = {
+  name: "Emit Slack API Errors",
+  description:
+    "If true, Slack API failures (e.g., 'not_in_channel', 'channel_not_found', 'missing_scope') are emitted on the 'Error' output instead of failing the event.",
+  type: "boolean" as const,
+  default: false,
+  required: false,
+};
+
+export const slackApiErrorOutput = {
+  name: "Error",
+  description:
+    "Emitted instead of failing when a Slack API call fails and 'Emit Slack API Errors' is enabled.",
+  secondary: true,
+  possiblePrimaryParents: ["default"],
+  type: slackApiErrorSchema,
+};
+
+// Lets blocks that opted in via their emitErrors config turn Slack API
+// failures into an "error" output event, so flows can branch on the code.
+export async function emitSlackApiError(
+  error: unknown,
+  emitErrors: boolean | undefined,
+): Promise<void> {
+  if (!emitErrors || !(error instanceof SlackApiError)) {
+    throw error;
+  }
+
+  await events.emit(error.toJSON(), { outputKey: "error" });
+}
+
+export function getSlackApiUrl(method: string, baseUrl?: string): string {
+  const normalizedBaseUrl = (baseUrl || defaultSlackApiBaseUrl).replace(
+    /\/+$/,
+    "",
+  );
+  return `${normalizedBaseUrl}/${method}`;
+}
+
 export async function callSlackApi<T extends Record<string, any>>(
   method: string,
   payload: Record<string, any>,
-  token: string,
+  auth: SlackApiAuth,
   contentType: "json" | "form" = "json",
 ): Promise<T & { ok: boolean }> {
   const isFormEncoded = contentType === "form";
+  const { maxRetries, baseDelayMs } =
+    tierRetryPolicies[methodTiers[method] ?? defaultMethodTier];
+  let tokenRefreshed = false;
 
-  const response = await fetch(`https://slack.com/api/${method}`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": isFormEncoded
-        ? "application/x-www-form-urlencoded"
-        : "application/json; charset=utf-8",
-    },
-    body: isFormEncoded
-      ? new URLSearchParams(payload).toString()
-      : JSON.stringify(payload),
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(getSlackApiUrl(method, auth.baseUrl), {
+      method: "POST",
+      headers: {
+        ...(auth.token && { Authorization: `Bearer ${auth.token}` }),
+        "Content-Type": isFormEncoded
+          ? "application/x-www-form-urlencoded"
+          : "application/json; charset=utf-8",
+      },
+      body: isFormEncoded
+        ? new URLSearchParams(payload).toString()
+        : JSON.stringify(payload),
+    });
+
+    // 5xx responses don't always carry a JSON body.
+    const data = await response.json().catch(() => ({
+      ok: false,
+      error: `http_${response.status}`,
+    }));
+    if (data.ok) {
+      return data;
+    }
+
+    // Rotating tokens can expire between resolution and use. Refresh once
+    // and keep the new token on `auth`, so later pages reuse it.
+    if (data.error === "token_expired" && auth.refresh && !tokenRefreshed) {
+      console.warn(`Slack token expired during ${method}, refreshing.`);
+      auth.token = await auth.refresh();
+      tokenRefreshed = true;
+      continue;
+    }
+
+    const isRateLimited =
+      response.status === 429 || data.error === "ratelimited";
+    const isRetryable =
+      isRateLimited ||
+      (!nonIdempotentMethods.includes(method) &&
+        (response.status >= 500 || transientSlackErrors.includes(data.error)));
+
+    if (isRetryable && attempt < maxRetries) {
+      const delayMs = getRetryDelayMs(response, attempt, baseDelayMs);
+      if (delayMs <= maxRetryDelayMs) {
+        console.warn(
+          `Slack API ${method} failed with ${data.error || response.status}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${maxRetries}).`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        continue;
+      }
+    }
+
+    throw new SlackApiError(method, response.status, data);
+  }
+}
+
+function getRetryDelayMs(
+  response: Response,
+  attempt: number,
+  baseDelayMs: number,
+): number {
+  // Slack sends Retry-After (in seconds) with every 429 response.
+  const retryAfter = parseInt(response.headers.get("Retry-After") ?? "", 10);
+  if (!isNaN(retryAfter)) {
+    return retryAfter * 1000;
+  }
+
+  const jitterMs = Math.floor(Math.random() * baseDelayMs * 0.2);
+  return baseDelayMs * 2 ** attempt + jitterMs;
+}
+
+export interface PaginationOptions<T = any> {
+  /** Stop after this many pages, even if Slack reports more. */
+  maxPages?: number;
+  /** Stop once this many items have been collected. */
+  maxItems?: number;
+  /** Drops items from a page (0-based) before they are collected and counted. */
+  filterPage?: (items: T[], page: number) => T[];
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  pages: number;
+  has_more: boolean;
+  next_cursor?: string;
+}
+
+// Follows response_metadata.next_cursor for cursor-paginated Slack methods,
+// collecting the array found under itemsKey from every page.
+export async function callSlackApiPaginated<T = any>(
+  method: string,
+  payload: Record<string, any>,
+  auth: SlackApiAuth,
+  itemsKey: string,
+  options: PaginationOptions<T> = {},
+  contentType: "json" | "form" = "json",
+): Promise<PaginatedResult<T>> {
+  const { maxPages = Infinity, maxItems = Infinity, filterPage } = options;
+  const items: T[] = [];
+  let pages = 0;
+  let cursor: string | undefined = payload.cursor;
+
+  while (true) {
+    const pagePayload: Record<string, any> = { ...payload };
+    if (cursor) {
+      pagePayload.cursor = cursor;
+    }
+
+    // Shrink the last page so we never fetch (and then drop) more than
+    // maxItems, which keeps next_cursor accurate for the caller.
+    const remaining = maxItems - items.length;
+    if (remaining < (pagePayload.limit ?? Infinity)) {
+      pagePayload.limit = remaining;
+    }
+
+    const data = await callSlackApi(method, pagePayload, auth, contentType);
+    const pageItems = (data[itemsKey] as T[]) || [];
+    items.push(...(filterPage ? filterPage(pageItems, pages) : pageItems));
+    pages++;
+
+    cursor = data.response_metadata?.next_cursor || undefined;
+    if (!cursor) {
+      return { items, pages, has_more: false };
+    }
+    if (pages >= maxPages || items.length >= maxItems) {
+      return { items, pages, has_more: true, next_cursor: cursor };
+    }
+  }
+}
+
+// Slack accepts posts to a response_url for 30 minutes after it was issued,
+// and at most 5 times. See https://api.slack.com/interactivity/handling#message_responses
+const responseUrlMaxUses = 5;
+const responseUrlLifetimeSeconds = 30 * 60;
+const responseUrlHosts = ["hooks.slack.com", "hooks.slack-gov.com"];
+
+interface ResponseUrlUsage {
+  issuedAt: number;
+  uses: number;
+}
+
+// response_urls carry a secret, so only their hash is used as the key.
+function getResponseUrlKey(responseUrl: string): string {
+  const hash = nodecrypto
+    .createHash("sha256")
+    .update(responseUrl)
+    .digest("hex");
+  return `response_url:${hash}`;
+}
+
+// Records when Slack handed us a response_url, so its age can be checked later.
+export async function trackResponseUrl(responseUrl: string | undefined) {
+  if (!responseUrl) {
+    return;
+  }
+
+  const usage: ResponseUrlUsage = { issuedAt: Date.now(), uses: 0 };
+  await kv.app.set({
+    key: getResponseUrlKey(responseUrl),
+    value: usage,
+    ttl: responseUrlLifetimeSeconds,
   });
+}
 
-  const data = await response.json();
-  if (!data.ok) {
+export async function postToResponseUrl(
+  responseUrl: string,
+  body: Record<string, any>,
+  baseUrl?: string,
+): Promise<{ usesRemaining: number }> {
+  let url: URL;
+  try {
+    url = new URL(responseUrl);
+  } catch {
+    throw new Error(`Invalid response_url: ${responseUrl}`);
+  }
+
+  // Only post to Slack's webhook hosts (or the configured API host, for a
+  // local Slack stand-in), since the body may carry sensitive content.
+  const isSlackHost =
+    url.protocol === "https:" && responseUrlHosts.includes(url.host);
+  const isApiHost = !!baseUrl && new URL(baseUrl).host === url.host;
+  if (!isSlackHost && !isApiHost) {
     throw new Error(
-      `Slack API error (${method}): ${data.error || "Unknown error"}`,
+      `Refusing to post to response_url on unexpected host: ${url.host}`,
     );
   }
 
-  return data;
+  const key = getResponseUrlKey(responseUrl);
+  const { value: storedUsage } = await kv.app.get(key);
+  const usage: ResponseUrlUsage = (storedUsage as ResponseUrlUsage) || {
+    issuedAt: Date.now(),
+    uses: 0,
+  };
+
+  const ageSeconds = (Date.now() - usage.issuedAt) / 1000;
+  if (ageSeconds > responseUrlLifetimeSeconds) {
+    throw new Error(
+      "response_url has expired (it is only valid for 30 minutes).",
+    );
+  }
+  if (usage.uses >= responseUrlMaxUses) {
+    throw new Error(
+      `response_url has already been used ${responseUrlMaxUses} times.`,
+    );
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+    body: JSON.stringify(body),
+  });
+
+  // Depending on the request, Slack answers either with JSON or a plain "ok".
+  const responseText = await response.text();
+  let data: Record<string, any>;
+  try {
+    data = JSON.parse(responseText);
+  } catch {
+    data = { ok: response.ok && responseText.trim() === "ok" };
+    if (!data.ok) {
+      data.error = responseText || `http_${response.status}`;
+    }
+  }
+  if (!data.ok) {
+    throw new SlackApiError("response_url", response.status, data);
+  }
+
+  usage.uses++;
+  await kv.app.set({
+    key,
+    value: usage,
+    ttl: Math.max(1, Math.ceil(responseUrlLifetimeSeconds - ageSeconds)),
+  });
+
+  return { usesRemaining: responseUrlMaxUses - usage.uses };
 }
@@ -0,0 +1,179 @@
+import {
+  handleCommandsEndpoint,
+  handleEventsEndpoint,
+  handleInteractivityEndpoint,
+  EndpointResponse,
+  PayloadAllowlist,
+} from "./httpHandlerHelpers.ts";
+import { callSlackApi, SlackApiAuth } from "./slackClient.ts";
+
+// Socket Mode lets Slack deliver events, interactions and slash commands over
+// a WebSocket opened by the app, instead of calling public Request URLs.
+// See https://api.slack.com/apis/socket-mode
+
+const maxReconnectDelayMs = 30_000;
+
+let socket: WebSocket | undefined;
+let socketAuth: SlackApiAuth | undefined;
+let socketAllowlist: PayloadAllowlist = {};
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Opens a Socket Mode connection with the given app-level token, unless one
+// is already open (or opening) for the same token.
+export async function startSocketMode(
+  auth: SlackApiAuth,
+  allowlist: PayloadAllowlist = {},
+) {
+  socketAllowlist = allowlist;
+  if (
+    socket &&
+    socketAuth?.token === auth.token &&
+    socketAuth?.baseUrl === auth.baseUrl &&
+    socket.readyState <= WebSocket.OPEN
+  ) {
+    return;
+  }
+
+  stopSocketMode();
+  socketAuth = auth;
+  await connect();
+}
+
+export function stopSocketMode() {
+  socketAuth = undefined;
+  clearTimeout(reconnectTimer);
+  reconnectTimer = undefined;
+
+  const previousSocket = socket;
+  socket = undefined;
+  previousSocket?.close();
+}
+
+async function connect() {
+  if (!socketAuth) {
+    return;
+  }
+
+  // Each apps.connections.open call returns a fresh, single-use WebSocket URL.
+  const { url } = await callSlackApi<{ url: string }>(
+    "apps.connections.open",
+    {},
+    socketAuth,
+  );
+
+  const ws = new WebSocket(url);
+  socket = ws;
+
+  ws.addEventListener("message", (message) => {
+    const data = String(message.data);
+    let envelope: any;
+    try {
+      envelope = JSON.parse(data);
+    } catch (error) {
+      // Without an envelope ID the frame can't be acknowledged either.
+      console.error(
+        `Ignoring malformed Slack Socket Mode frame: ${data.slice(0, 500)}`,
+        error,
+      );
+      return;
+    }
+    handleEnvelope(ws, envelope).catch((error) => {
+      console.error(
+        `Failed to handle Slack Socket Mode ${envelope?.type} envelope:`,
+        error,
+      );
+    });
+  });
+  ws.addEventListener("error", (error) => {
+    console.error("Slack Socket Mode connection error:", error);
+  });
+  ws.addEventListener("close", () => {
+    // Only reconnect if this is still the active connection.
+    if (socket === ws) {
+      socket = undefined;
+      scheduleReconnect();
+    }
+  });
+}
+
+function scheduleReconnect() {
+  if (!socketAuth) {
+    return;
+  }
+
+  const delayMs = Math.min(1000 * 2 ** reconnectAttempts, maxReconnectDelayMs);
+  reconnectAttempts++;
+  console.log(`Reconnecting to Slack Socket Mode in ${delayMs}ms.`);
+
+  reconnectTimer = setTimeout(() => {
+    connect().catch((error) => {
+      console.error("Failed to reconnect to Slack Socket Mode:", error);
+      scheduleReconnect();
+    });
+  }, delayMs);
+}
+
+async function handleEnvelope(ws: WebSocket, envelope: any) {
+  if (envelope.type === "hello") {
+    console.log("Slack Socket Mode connection established.");
+    reconnectAttempts = 0;
+    return;
+  }
+
+  if (envelope.type === "disconnect") {
+    // Slack warns us before it closes a connection (e.g. for a refresh).
+    console.log(`Slack Socket Mode disconnect requested: ${envelope.reason}`);
+    ws.close();
+    return;
+  }
+
+  let response: EndpointResponse = { statusCode: 200 };
+  try {
+    response = await dispatchEnvelope(envelope);
+  } catch (error) {
+    console.error(
+      `Error handling Slack Socket Mode ${envelope.type} envelope:`,
+      error,
+    );
+  }
+
+  // Every envelope must be acknowledged, otherwise Slack retries it. Some
+  // (e.g. block_suggestion) carry their response in the acknowledgement.
+  ws.send(
+    JSON.stringify({
+      envelope_id: envelope.envelope_id,
+      ...(envelope.accepts_response_payload &&
+        response.body !== undefined && { payload: response.body }),
+    }),
+  );
+
+  await response.deferred?.();
+}
+
+async function dispatchEnvelope(envelope: any): Promise<EndpointResponse> {
+  switch (envelope.type) {
+    case "events_api":
+      // Map Socket Mode retry metadata onto the HTTP retry headers.
+      return handleEventsEndpoint(
+        envelope.payload,
+        envelope.retry_attempt
+          ? {
+              "X-Slack-Retry-Num": String(envelope.retry_attempt),
+              "X-Slack-Retry-Reason": envelope.retry_reason,
+            }
+          : {},
+        socketAllowlist,
+      );
+    case "interactive":
+      return handleInteractivityEndpoint(envelope.payload, socketAllowlist);
+    case "slash_commands":
+      return handleCommandsEndpoint(envelope.payload, socketAllowlist);
+    default:
+      console.warn(
+        "Received unhandled Slack Socket Mode envelope type:",
+        envelope.type,
+      );
+      return { statusCode: 200 };
+  }
+}
@@ -0,0 +1,149 @@
+import { kv } from "@slflows/sdk/v1";
+
+import * as nodecrypto from "node:crypto";
+import { callSlackApi, SlackApiAuth } from "./slackClient.ts";
+
+// Token rotation: Slack issues 12-hour access tokens together with a
+// long-lived `xoxe` refresh token. See https://api.slack.com/authentication/rotation
+
+// Refresh this long before the access token expires.
+const tokenRefreshMarginMs = 5 * 60 * 1000;
+
+// How long a refresh may hold the lock before another block takes over.
+const tokenRefreshLockSeconds = 30;
+const tokenRefreshPollMs = 500;
+
+// The rotating token from the app config is stored as "config", tokens of
+// OAuth installations under their team ID.
+export const configTokenScope = "config";
+
+const rotatingTokenKey = (scope: string) => `rotatingToken:${scope}`;
+const tokenRefreshLockKey = (scope: string) => `rotatingToken:${scope}:refresh`;
+
+export interface RotatingToken {
+  accessToken?: string;
+  refreshToken: string;
+  /** Epoch milliseconds after which accessToken is no longer valid. */
+  expiresAt: number;
+  /** The configured refresh token this entry was seeded from. */
+  seedRefreshToken?: string;
+}
+
+export async function getRotatingToken(
+  scope: string,
+): Promise<RotatingToken | undefined> {
+  const { value } = await kv.app.get(rotatingTokenKey(scope));
+  return value as RotatingToken | undefined;
+}
+
+export async function saveRotatingToken(scope: string, token: RotatingToken) {
+  await kv.app.set({ key: rotatingTokenKey(scope), value: token });
+}
+
+// Returns credentials backed by a rotating token, refreshing the access
+// token first if it expires soon.
+export async function getRotatingAuth(
+  config: Record<string, any>,
+  scope: string,
+  token: RotatingToken,
+): Promise<SlackApiAuth> {
+  let current = token;
+  if (
+    !current.accessToken ||
+    current.expiresAt - tokenRefreshMarginMs <= Date.now()
+  ) {
+    current = await refreshRotatingToken(config, scope, current);
+  }
+
+  return {
+    token: current.accessToken!,
+    baseUrl: config.slackApiBaseUrl,
+    refresh: async () => {
+      current = await refreshRotatingToken(config, scope, current);
+      return current.accessToken!;
+    },
+  };
+}
+
+// Exchanges the refresh token for a new access token. Only one block
+// refreshes at a time; the others wait for its result, since concurrent
+// refreshes would race on the stored refresh token.
+async function refreshRotatingToken(
+  config: Record<string, any>,
+  scope: string,
+  stale: RotatingToken,
+): Promise<RotatingToken> {
+  const { slackClientId, slackClientSecret, slackApiBaseUrl } = config;
+  if (!slackClientId || !slackClientSecret) {
+    throw new Error(
+      "Slack Client ID and Client Secret are required to refresh a rotating token.",
+    );
+  }
+
+  const lockId = nodecrypto.randomUUID();
+  const locked = await kv.app.set({
+    key: tokenRefreshLockKey(scope),
+    value: lockId,
+    ttl: tokenRefreshLockSeconds,
+    lock: { id: lockId, timeout: tokenRefreshLockSeconds },
+  });
+
+  if (!locked) {
+    return await waitForRefreshedToken(scope, stale);
+  }
+
+  try {
+    // Another block may have finished a refresh just before we got the lock.
+    const latest = await getRotatingToken(scope);
+    if (
+      latest?.accessToken &&
+      latest.accessToken !== stale.accessToken &&
+      latest.seedRefreshToken === stale.seedRefreshToken &&
+      latest.expiresAt - tokenRefreshMarginMs > Date.now()
+    ) {
+      return latest;
+    }
+
+    console.log(`Refreshing rotating Slack token (${scope}).`);
+    const data = await callSlackApi(
+      "oauth.v2.access",
+      {
+        client_id: slackClientId,
+        client_secret: slackClientSecret,
+        grant_type: "refresh_token",
+        refresh_token: stale.refreshToken,
+      },
+      { token: "", baseUrl: slackApiBaseUrl },
+      "form",
+    );
+
+    const refreshed: RotatingToken = {
+      ...stale,
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || stale.refreshToken,
+      expiresAt: Date.now() + data.expires_in * 1000,
+    };
+    await saveRotatingToken(scope, refreshed);
+    return refreshed;
+  } finally {
+    await kv.app.delete([tokenRefreshLockKey(scope)]);
+  }
+}
+
+async function waitForRefreshedToken(
+  scope: string,
+  stale: RotatingToken,
+): Promise<RotatingToken> {
+  const deadline = Date.now() + tokenRefreshLockSeconds * 1000;
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, tokenRefreshPollMs));
+
+    const latest = await getRotatingToken(scope);
+    if (latest?.accessToken && latest.accessToken !== stale.accessToken) {
+      return latest;
+    }
+  }
+
+  throw new Error(`Timed out waiting for the Slack token refresh (${scope}).`);
+}
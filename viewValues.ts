@@ -0,0 +1,167 @@
+// Slack reports form state as view.state.values[block_id][action_id], with a
+// different shape per element type. These helpers flatten it into one value
+// per input. See https://api.slack.com/reference/interaction-payloads/views#view_submission
+//
+// Slack generates random action_ids for elements without one, so keying by
+// action_id (the default) needs explicit action_ids to give stable keys.
+
+export type ViewValuesKey = "action_id" | "block_id";
+
+const optionValuesSchema = {
+  type: "array",
+  items: { type: "string" },
+};
+
+// JSON schema of the normalized value of each element type.
+const elementValueSchemas: Record<string, Record<string, any>> = {
+  plain_text_input: { type: ["string", "null"] },
+  email_text_input: { type: ["string", "null"], format: "email" },
+  url_text_input: { type: ["string", "null"], format: "uri" },
+  number_input: { type: ["number", "null"] },
+  rich_text_input: { type: ["object", "null"] },
+  static_select: { type: ["string", "null"] },
+  external_select: { type: ["string", "null"] },
+  users_select: { type: ["string", "null"] },
+  conversations_select: { type: ["string", "null"] },
+  channels_select: { type: ["string", "null"] },
+  multi_static_select: optionValuesSchema,
+  multi_external_select: optionValuesSchema,
+  multi_users_select: optionValuesSchema,
+  multi_conversations_select: optionValuesSchema,
+  multi_channels_select: optionValuesSchema,
+  checkboxes: optionValuesSchema,
+  radio_buttons: { type: ["string", "null"] },
+  datepicker: { type: ["string", "null"], format: "date" },
+  timepicker: { type: ["string", "null"], description: "HH:MM" },
+  datetimepicker: {
+    type: ["number", "null"],
+    description: "Unix timestamp in seconds.",
+  },
+  file_input: { type: "array", items: { type: "object" } },
+};
+
+export function normalizeViewStateValue(state: Record<string, any>): any {
+  switch (state.type) {
+    case "number_input":
+      return state.value != null && state.value !== ""
+        ? Number(state.value)
+        : null;
+    case "rich_text_input":
+      return state.rich_text_value ?? null;
+    case "static_select":
+    case "external_select":
+    case "radio_buttons":
+      return state.selected_option?.value ?? null;
+    case "multi_static_select":
+    case "multi_external_select":
+    case "checkboxes":
+      return (state.selected_options || []).map(
+        (option: { value: string }) => option.value,
+      );
+    case "users_select":
+      return state.selected_user ?? null;
+    case "multi_users_select":
+      return state.selected_users || [];
+    case "conversations_select":
+      return state.selected_conversation ?? null;
+    case "multi_conversations_select":
+      return state.selected_conversations || [];
+    case "channels_select":
+      return state.selected_channel ?? null;
+    case "multi_channels_select":
+      return state.selected_channels || [];
+    case "datepicker":
+      return state.selected_date ?? null;
+    case "timepicker":
+      return state.selected_time ?? null;
+    case "datetimepicker":
+      return state.selected_date_time ?? null;
+    case "file_input":
+      return state.files || [];
+    default:
+      return state.value ?? null;
+  }
+}
+
+// Picks the key of each (block_id, action_id) pair. Slack only requires
+// action_ids to be unique within a block, and block_id keying merges the
+// elements of an actions block, so colliding keys fall back to
+// "block_id.action_id" instead of overwriting each other.
+function getValueKeys(
+  pairs: [blockId: string, actionId: string][],
+  keyBy: ViewValuesKey,
+): string[] {
+  const keys = pairs.map(([blockId, actionId]) =>
+    keyBy === "block_id" ? blockId : actionId,
+  );
+  return keys.map((key, index) =>
+    keys.indexOf(key) !== keys.lastIndexOf(key)
+      ? `${pairs[index][0]}.${pairs[index][1]}`
+      : key,
+  );
+}
+
+// Flattens view.state.values into `{ [key]: value }`.
+export function extractViewValues(
+  stateValues: Record<string, Record<string, any>>,
+  keyBy: ViewValuesKey = "action_id",
+): Record<string, any> {
+  const entries = Object.entries(stateValues || {}).flatMap(
+    ([blockId, actions]) =>
+      Object.entries(actions).map(
+        ([actionId, state]) => [blockId, actionId, state] as const,
+      ),
+  );
+  const keys = getValueKeys(
+    entries.map(([blockId, actionId]) => [blockId, actionId]),
+    keyBy,
+  );
+
+  const values: Record<string, any> = {};
+  entries.forEach(([, , state], index) => {
+    values[keys[index]] = normalizeViewStateValue(state);
+  });
+  return values;
+}
+
+// Derives the JSON schema of the extracted values from the view's blocks.
+// Non-optional input blocks are required.
+export function getViewValuesSchema(
+  blocks: any[],
+  keyBy: ViewValuesKey = "action_id",
+): Record<string, any> {
+  const inputs: { block: any; element: any; valueSchema: any }[] = [];
+  for (const block of blocks || []) {
+    const elements =
+      block.type === "input"
+        ? [block.element]
+        : block.type === "actions"
+          ? block.elements
+          : [block.accessory];
+
+    for (const element of elements || []) {
+      const valueSchema = element && elementValueSchemas[element.type];
+      if (valueSchema) {
+        inputs.push({ block, element, valueSchema });
+      }
+    }
+  }
+  const keys = getValueKeys(
+    inputs.map(({ block, element }) => [block.block_id, element.action_id]),
+    keyBy,
+  );
+
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+  inputs.forEach(({ block, valueSchema }, index) => {
+    properties[keys[index]] = {
+      ...valueSchema,
+      ...(block.label?.text && { title: block.label.text }),
+    };
+    if (block.type === "input" && !block.optional) {
+      required.push(keys[index]);
+    }
+  });
+
+  return { type: "object", properties, required };
+}